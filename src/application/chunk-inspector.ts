@@ -0,0 +1,143 @@
+/**
+ * 白泽 Baize - 分块检查
+ * 
+ * 对单个文件按当前（或指定的）分块配置重新分块，与向量库中已入库的记录对照：
+ * - 每个分块的标题路径、Token 数（按向量化文本计算）、与前一分块的重叠
+ * - 同一 id 的入库记录：元数据、向量范数，以及入库内容是否与本次分块一致
+ * 
+ * 只读取，不向量化也不写入索引，用于调整 chunkSize、overlapThreshold 等参数
+ */
+import type { TFile } from "obsidian";
+import type { IVectorStore } from "../domain/interfaces/vector-store";
+import type { ChunkMetadata, VectorRecord } from "../infrastructure/database/schema";
+import type { ITokenCounter } from "../domain/interfaces/token-counter";
+import type { ChunkingOptions } from "../domain/chunking/strategies";
+import { embeddingText } from "../domain/chunking/context-header";
+import type { BaizeChunk } from "../domain/models/baize-chunk";
+import { hashString } from "../shared/hash";
+import type { IndexScheduler } from "./index-scheduler";
+
+/** 已入库的分块记录 */
+export interface StoredChunk {
+    metadata: ChunkMetadata;
+    /** 向量的 L2 范数（归一化向量应为 1） */
+    norm: number;
+    dimension: number;
+    /** 入库的向量化文本与本次分块一致 */
+    current: boolean;
+}
+
+/** 单个分块的检查结果 */
+export interface InspectedChunk {
+    index: number;
+    vectorId: string;
+    text: string;
+    /** 分块在段落正文中的字符起止偏移量 */
+    offsetStart: number;
+    offsetEnd: number;
+    lineStart: number;
+    lineEnd: number;
+    headings: string[];
+    /** 向量化文本（上下文标题 + 分块原文）的 Token 数 */
+    tokens: number;
+    /** 与同一段落中前一分块重叠的字符数 */
+    overlap: number;
+    metadata: ChunkMetadata;
+    /** 同一 id 的入库记录，未入库时省略 */
+    stored?: StoredChunk;
+}
+
+/** 单个段落（Markdown 笔记只有一个段落，PDF 按页、Canvas 按节点） */
+export interface InspectedSection {
+    text: string;
+    /** 段落标识，如「第 3 页」，只有一个段落时为空字符串 */
+    label: string;
+    chunks: InspectedChunk[];
+}
+
+/** 文件的分块检查结果 */
+export interface ChunkInspection {
+    path: string;
+    /** 生效的分块配置 */
+    options: ChunkingOptions;
+    /** 模型的最大输入长度（Token 数） */
+    maxTokens: number;
+    sections: InspectedSection[];
+    /** 该文件的入库记录数 */
+    storedCount: number;
+    /** 本次分块中没有对应的入库记录 id（如分块数减少后残留的记录） */
+    unmatched: string[];
+}
+
+export class ChunkInspector {
+    private scheduler: IndexScheduler;
+    private db: IVectorStore;
+
+    constructor(scheduler: IndexScheduler, db: IVectorStore) {
+        this.scheduler = scheduler;
+        this.db = db;
+    }
+
+    /**
+     * 检查文件的分块
+     * @param chunking - 覆盖当前配置的分块参数，不提供时按索引使用的配置
+     */
+    async inspect(file: TFile, chunking?: Partial<ChunkingOptions>): Promise<ChunkInspection> {
+        const preview = await this.scheduler.previewChunks(file, chunking);
+        const records = new Map<string, VectorRecord>(
+            (await this.db.getByFile(file.path)).map(r => [r.id, r])
+        );
+        const matched = new Set<string>();
+
+        const sections = preview.sections.map(({ section, chunks }) => ({
+            text: section.text,
+            label: preview.sections.length === 1
+                ? ""
+                : section.page !== undefined
+                    ? `第 ${section.page} 页`
+                    : section.headings?.join(" > ") || section.nodeId || "",
+            chunks: chunks.map((chunk, i) => {
+                const record = records.get(chunk.vectorId);
+                if (record) matched.add(record.id);
+                return this.inspectChunk(chunk, chunks[i - 1], record, preview.counter);
+            }),
+        }));
+
+        return {
+            path: file.path,
+            options: preview.options,
+            maxTokens: preview.counter.maxTokens,
+            sections,
+            storedCount: records.size,
+            unmatched: [...records.keys()].filter(id => !matched.has(id)),
+        };
+    }
+
+    private inspectChunk(
+        chunk: BaizeChunk,
+        previous: BaizeChunk | undefined,
+        record: VectorRecord | undefined,
+        counter: ITokenCounter
+    ): InspectedChunk {
+        const text = embeddingText(chunk.text, chunk.metadata);
+        return {
+            index: chunk.index,
+            vectorId: chunk.vectorId,
+            text: chunk.text,
+            offsetStart: chunk.offsetStart,
+            offsetEnd: chunk.offsetEnd,
+            lineStart: chunk.lineStart,
+            lineEnd: chunk.lineEnd,
+            headings: chunk.metadata.headings,
+            tokens: counter.count(text),
+            overlap: previous ? Math.max(0, previous.offsetEnd - chunk.offsetStart) : 0,
+            metadata: chunk.metadata,
+            stored: record && {
+                metadata: record.metadata,
+                norm: Math.sqrt(record.vector.reduce((sum, v) => sum + v * v, 0)),
+                dimension: record.vector.length,
+                current: record.content_hash === hashString(text),
+            },
+        };
+    }
+}
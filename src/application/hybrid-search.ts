@@ -0,0 +1,106 @@
+/**
+ * 白泽 Baize - 混合检索
+ * 
+ * 向量相似度擅长语义相近的表述，却常把错误码、人名、工单号等精确词汇排在后面；
+ * 混合检索同时取两路候选，再按倒数排名融合 (RRF)：
+ * 1. 向量检索：按余弦相似度取候选（低于 minScore 的不参与）
+ * 2. 关键词检索：在 BM25 关键词索引中取候选，只被关键词命中的分块从向量库取回，同样应用过滤条件
+ * 
+ * 结果按融合分数排序，score 仍为与查询向量的余弦相似度，便于界面显示
+ */
+import type { IVectorStore } from "../domain/interfaces/vector-store";
+import type { SearchResult } from "../domain/models/search-result";
+import type { BaizeChunk } from "../domain/models/baize-chunk";
+import type { VectorRecord, VectorSearchFilter } from "../infrastructure/database/schema";
+import type { KeywordIndex } from "../infrastructure/storage/keyword-index";
+import { reciprocalRankFusion } from "../domain/search/rank-fusion";
+import { matchesFilter } from "../domain/filters/search-filter";
+import type { Logger } from "../shared/logger";
+
+export interface HybridSearchOptions {
+    topK: number;
+    minScore?: number;
+    filter?: VectorSearchFilter;
+    /** 关键词排名的权重 (0.0 - 1.0)，向量排名的权重为 1 - keywordWeight；0 时只做向量检索 */
+    keywordWeight: number;
+}
+
+/** 每路候选数为 Top-K 的倍数 */
+const CANDIDATE_FACTOR = 3;
+
+/** 每路候选数下限 */
+const MIN_CANDIDATES = 20;
+
+export class HybridSearch {
+    private db: IVectorStore;
+    private keywords: KeywordIndex | undefined;
+    private logger: Logger;
+
+    /**
+     * @param keywords - 关键词索引，未提供时只做向量检索
+     */
+    constructor(db: IVectorStore, keywords: KeywordIndex | undefined, logger: Logger) {
+        this.db = db;
+        this.keywords = keywords;
+        this.logger = logger;
+    }
+
+    async search(query: string, vector: number[], options: HybridSearchOptions): Promise<SearchResult[]> {
+        const { topK, minScore = 0, filter } = options;
+        const weight = Math.max(0, Math.min(1, options.keywordWeight));
+        if (!this.keywords || weight === 0) {
+            return this.db.search(vector, topK, minScore, filter);
+        }
+
+        const limit = Math.max(topK * CANDIDATE_FACTOR, MIN_CANDIDATES);
+        const semantic = await this.db.search(vector, limit, minScore, filter);
+        const byId = new Map(semantic.map(r => [r.chunk.vectorId, r]));
+
+        const hits = this.keywords.search(query, limit);
+        const missing = hits.map(h => h.id).filter(id => !byId.has(id));
+        for (const record of await this.db.getByIds(missing)) {
+            if (!matchesFilter(record, filter)) continue;
+            byId.set(record.id, toResult(record, cosineSimilarity(vector, record.vector)));
+        }
+
+        const fused = reciprocalRankFusion([
+            { weight: 1 - weight, ids: semantic.map(r => r.chunk.vectorId) },
+            { weight, ids: hits.map(h => h.id).filter(id => byId.has(id)) },
+        ]);
+
+        this.logger.debug(
+            `[Search] Hybrid: ${semantic.length} semantic, ${hits.length} keyword ` +
+            `(${missing.length} keyword-only), weight=${weight}`
+        );
+        return fused.slice(0, topK).map(([id]) => byId.get(id)!);
+    }
+}
+
+function toResult(record: VectorRecord, score: number): SearchResult {
+    return {
+        chunk: {
+            index: record.chunk_index,
+            text: record.text,
+            vectorId: record.id,
+            metadata: record.metadata,
+            offsetStart: record.metadata.offset_start ?? 0,
+            offsetEnd: record.metadata.offset_end ?? 0,
+            lineStart: record.metadata.line_start ?? 0,
+            lineEnd: record.metadata.line_end ?? 0,
+        } as BaizeChunk,
+        score,
+        distance: 1 - score,
+    };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,87 @@
+/**
+ * 白泽 Baize - 索引任务队列
+ * 
+ * 按优先级出队，同优先级内保持 FIFO：
+ * - ACTIVE：当前打开的笔记
+ * - RECENT：刚刚编辑过的文件
+ * - BACKFILL：全量同步产生的批量任务
+ * 
+ * 同一路径只保留一个任务，重复入队时取更高的优先级
+ */
+
+/** 索引任务优先级（数值越小越先处理） */
+export enum IndexPriority {
+    ACTIVE = 0,
+    RECENT = 1,
+    BACKFILL = 2,
+}
+
+const PRIORITIES = [IndexPriority.ACTIVE, IndexPriority.RECENT, IndexPriority.BACKFILL];
+
+export class IndexQueue {
+    /** 各优先级的待处理路径（Set 保持插入顺序） */
+    private buckets: Map<IndexPriority, Set<string>> = new Map(
+        PRIORITIES.map(p => [p, new Set<string>()])
+    );
+
+    /** 路径 → 当前优先级 */
+    private priorities: Map<string, IndexPriority> = new Map();
+
+    /**
+     * 加入队列
+     * 已在队列中且新优先级更高时提升，否则保持原位置
+     */
+    enqueue(path: string, priority: IndexPriority): void {
+        const current = this.priorities.get(path);
+        if (current !== undefined && current <= priority) return;
+
+        if (current !== undefined) {
+            this.buckets.get(current)!.delete(path);
+        }
+        this.buckets.get(priority)!.add(path);
+        this.priorities.set(path, priority);
+    }
+
+    /** 取出优先级最高的任务 */
+    dequeue(): string | undefined {
+        for (const priority of PRIORITIES) {
+            const bucket = this.buckets.get(priority)!;
+            const next = bucket.values().next();
+            if (!next.done) {
+                bucket.delete(next.value);
+                this.priorities.delete(next.value);
+                return next.value;
+            }
+        }
+        return undefined;
+    }
+
+    /** 若路径已在队列中，提升到指定优先级；返回是否在队列中 */
+    promote(path: string, priority: IndexPriority): boolean {
+        if (!this.priorities.has(path)) return false;
+        this.enqueue(path, priority);
+        return true;
+    }
+
+    /** 从队列中移除 */
+    remove(path: string): void {
+        const current = this.priorities.get(path);
+        if (current === undefined) return;
+        this.buckets.get(current)!.delete(path);
+        this.priorities.delete(path);
+    }
+
+    has(path: string): boolean {
+        return this.priorities.has(path);
+    }
+
+    /** 清空所有任务 */
+    clear(): void {
+        for (const bucket of this.buckets.values()) bucket.clear();
+        this.priorities.clear();
+    }
+
+    get size(): number {
+        return this.priorities.size;
+    }
+}
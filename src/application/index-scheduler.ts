@@ -6,13 +6,180 @@
  * 2. 管理索引任务队列，确保任务有序执行且不冲突
  * 3. 协调 Chunker、Embedder 和 VectorDB 执行端到端索引
  * 4. 报告索引进度和状态
+ * 
+ * 索引以流水线方式执行：多个文件的分块合并为固定大小的批次向量化，
+ * 向量化的同时继续读取、分块后续文件，完成的文件按组合并写入向量库
  */
-import { App, TFile } from "obsidian";
+import { App, TFile, getLinkpath } from "obsidian";
 import { EventBus, BaizeEvents } from "../shared/event-bus";
 import type { IEmbedder } from "../domain/interfaces/embedder";
 import type { Logger } from "../shared/logger";
-import type { VectorRecord } from "../infrastructure/database/schema";
+import type { ChunkMetadata, ParentRecord, VectorRecord, VectorWriteBatch } from "../infrastructure/database/schema";
+import { MODEL_MAX_TOKENS } from "../infrastructure/database/schema";
 import { MarkdownChunker } from "../domain/chunking/markdown-chunker";
+import { CHUNKER_VERSION, DEFAULT_CHUNKING_OPTIONS, chunkingConfigKey } from "../domain/chunking/strategies";
+import type { ChunkingOptions } from "../domain/chunking/strategies";
+import { MAX_EMBED_DEPTH } from "../domain/chunking/embed-expansion";
+import { EstimatedTokenCounter } from "../domain/chunking/token-budget";
+import type { ChunkContext } from "../domain/chunking/context-header";
+import { embeddingText, pickProperties } from "../domain/chunking/context-header";
+import { applyBlockIds, planBlockIds } from "../domain/chunking/block-ids";
+import { readProperties } from "../domain/filters/property-filter";
+import { BaizeFile } from "../domain/models/baize-file";
+import type { IndexStamp } from "../domain/models/baize-file";
+import type { IndexManifest } from "../infrastructure/storage/index-manifest";
+import type { KeywordIndex } from "../infrastructure/storage/keyword-index";
+import { hashString } from "../shared/hash";
+import { IndexError } from "../shared/errors";
+import type { PathFilter } from "../domain/filters/path-filter";
+import type { BaizeChunk, ParentChunk } from "../domain/models/baize-chunk";
+import type { ExtractedDocument, ExtractedSection } from "../domain/interfaces/document-extractor";
+import type { ITokenCounter } from "../domain/interfaces/token-counter";
+import type { ExtractorRegistry } from "../infrastructure/extractors/extractor-registry";
+import type { IIndexGate } from "../domain/interfaces/index-gate";
+import { IndexQueue, IndexPriority } from "./index-queue";
+import type { FileChangeBatch } from "./sync-service";
+
+/** 索引调度器配置 */
+export interface IndexSchedulerOptions {
+    /** 当前使用的 Embedding 模型 ID（记录到清单中，模型变更后触发重建） */
+    modelId: string;
+
+    /** 索引排除规则（与 SyncService、搜索结果过滤共用） */
+    filter: PathFilter;
+
+    /** 文档提取器（决定哪些类型的文件参与索引） */
+    extractors: ExtractorRegistry;
+
+    /** 每个向量化批次的分块数（可跨多个文件） */
+    embedBatchSize?: number;
+
+    /** 同时进行的向量化批次数 */
+    embedConcurrency?: number;
+
+    /** 分块配置（与默认值不同的项会记录到清单中，变更后触发重新分块） */
+    chunking?: Partial<ChunkingOptions>;
+
+    /** 为不含块 ID 的分块在笔记中写入块 ID（^abc123），使跳转不受行号漂移影响 */
+    assignBlockIds?: boolean;
+
+    /** 索引闸门（移动端按充电、前后台状态暂缓索引），不提供时始终允许 */
+    gate?: IIndexGate;
+
+    /** 关键词索引（BM25），随向量写入同步更新，不提供时只维护向量 */
+    keywords?: KeywordIndex;
+}
+
+/** 可在运行时调整的流水线与分块参数 */
+export type IndexPipelineOptions = Pick<
+    IndexSchedulerOptions,
+    "embedBatchSize" | "embedConcurrency" | "chunking" | "assignBlockIds"
+>;
+
+/** 全量同步选项 */
+export interface FullSyncOptions {
+    /** 忽略清单，强制重新索引所有文件 */
+    force?: boolean;
+}
+
+/** 索引调度器运行状态 */
+export interface IndexSchedulerStatus {
+    /** deferred：队列中有文件，但被索引闸门暂缓 */
+    state: "idle" | "indexing" | "paused" | "deferred";
+    isBusy: boolean;
+    queueLength: number;
+    /** 正在处理的文件 */
+    currentPath: string | null;
+    /** 索引失败的文件数 */
+    failedCount: number;
+    /** 被索引闸门暂缓的原因 */
+    holdReason: string | null;
+}
+
+/** 单个文件的索引失败记录 */
+export interface IndexFailure {
+    path: string;
+    reason: string;
+}
+
+/** INDEX_ERROR 事件负载 */
+export interface IndexErrorPayload {
+    /** 本轮处理中失败的文件 */
+    failures: IndexFailure[];
+    /** 当前累计失败的文件总数（含历史未恢复的） */
+    totalFailed: number;
+}
+
+/** 分块预览结果（见 previewChunks） */
+export interface ChunkPreview {
+    /** 各段落及其分块（分块偏移量相对于段落正文） */
+    sections: { section: ExtractedSection; chunks: BaizeChunk[] }[];
+    /** 生效的分块配置 */
+    options: ChunkingOptions;
+    /** 分块使用的分词器 */
+    counter: ITokenCounter;
+}
+
+/** 每处理多少个文件落盘一次清单 */
+const MANIFEST_SAVE_INTERVAL = 50;
+
+/** 连续占用主线程超过该时长（毫秒）后让出一次控制权 */
+const YIELD_AFTER_MS = 50;
+
+/** 默认每批向量化的分块数 */
+const DEFAULT_EMBED_BATCH_SIZE = 32;
+
+/** 默认同时进行的向量化批次数 */
+const DEFAULT_EMBED_CONCURRENCY = 1;
+
+/** 每组合并写入的文件数上限 */
+const COMMIT_GROUP_SIZE = 20;
+
+/** 已分块、等待向量化与入库的文件 */
+interface PreparedFile {
+    path: string;
+    record: BaizeFile;
+    stamp: IndexStamp;
+    chunks: BaizeChunk[];
+    /** 各分块的内容哈希 */
+    hashes: string[];
+    /** 各分块的向量（复用的旧向量或新生成的向量） */
+    vectors: (number[] | undefined)[];
+    /** 该文件已入库的记录（用于增量对比） */
+    existing: VectorRecord[];
+    tags: string[];
+    /** 笔记属性（frontmatter 与 Dataview 行内字段） */
+    properties: ChunkMetadata["properties"];
+    size: number;
+    mtime: number;
+    /** 尚未完成向量化的分块数 */
+    remaining: number;
+    /** 需要重新向量化的分块数 */
+    embedded: number;
+    failed?: boolean;
+}
+
+/** 待向量化的单个分块 */
+interface EmbedJob {
+    file: PreparedFile;
+    chunkIndex: number;
+}
+
+/** 一轮队列处理的流水线状态 */
+interface PipelineRun {
+    /** 已处理完成（含跳过与失败）的文件数 */
+    processed: number;
+    /** 上次落盘清单时的 processed */
+    lastSaved: number;
+    /** 已出队但尚未入库的文件数 */
+    inPipeline: number;
+    embedQueue: EmbedJob[];
+    /** 全部分块已向量化、等待入库的文件 */
+    ready: PreparedFile[];
+    /** 进行中的向量化批次 */
+    inFlight: Set<Promise<void>>;
+    failures: IndexFailure[];
+}
 
 export class IndexScheduler {
     private app: App;
@@ -21,10 +188,21 @@ export class IndexScheduler {
     private embedder: IEmbedder;
     private logger: Logger;
     private chunker: MarkdownChunker;
+    /** 当前分块配置摘要 */
+    private chunkerConfig: string;
+    private manifest: IndexManifest;
+    private options: IndexSchedulerOptions;
     private modelReady = false;
 
-    private queue: string[] = [];
+    private queue = new IndexQueue();
     private isBusy = false;
+    private paused = false;
+    private currentPath: string | null = null;
+    private disposed = false;
+    /** 用户要求立即索引：跳过可跳过的闸门条件，直到队列清空 */
+    private overrideHold = false;
+    private unsubscribeGate: (() => void) | null = null;
+    private subscriptions: [string, (...args: any[]) => void][] = [];
 
     constructor(
         app: App,
@@ -32,80 +210,518 @@ export class IndexScheduler {
         db: any,
         _modelManager: any, // 保留参数位以兼容现有调用
         embedder: IEmbedder,
-        logger: Logger
+        logger: Logger,
+        manifest: IndexManifest,
+        options: IndexSchedulerOptions
     ) {
         this.app = app;
         this.events = events;
         this.db = db;
         this.embedder = embedder;
         this.logger = logger;
-        this.chunker = new MarkdownChunker();
+        this.manifest = manifest;
+        this.options = options;
+        this.chunker = this.createChunker();
+        this.chunkerConfig = chunkingConfigKey(options.chunking ?? {});
 
         this.setupSubscriptions();
+        this.unsubscribeGate = options.gate?.onChange(() => this.onGateChange()) ?? null;
     }
 
     /** 订阅来自 SyncService 或其他的事件 */
     private setupSubscriptions() {
         // 增量索引触发
-        this.events.on(BaizeEvents.FILE_CHANGED, (path: unknown) => {
-            this.addToQueue(path as string);
+        // 当前打开的笔记优先于其他最近编辑的文件
+        this.subscribe(BaizeEvents.FILE_CHANGED, (path: unknown) => {
+            const isActive = this.app.workspace.getActiveFile()?.path === path;
+            this.addToQueue(path as string, isActive ? IndexPriority.ACTIVE : IndexPriority.RECENT);
+
+            // 展开嵌入时，被嵌入的笔记变化后嵌入它的笔记也需要重新索引
+            if (this.options.chunking?.resolveEmbeds) {
+                for (const host of this.embedHosts([path as string])) {
+                    this.addToQueue(host, IndexPriority.BACKFILL);
+                }
+            }
         });
 
         // 删除索引
-        this.events.on(BaizeEvents.FILE_DELETED, (path: unknown) => {
-            this.db.delete(path as string).catch((err: Error) =>
-                this.logger.error(`[Index] Failed to delete index for ${path}`, err)
-            );
+        this.subscribe(BaizeEvents.FILE_DELETED, (path: unknown) => {
+            this.queue.remove(path as string);
+            this.db.delete(path as string)
+                .then(() => {
+                    this.manifest.remove(path as string);
+                    this.options.keywords?.removeFile(path as string);
+                })
+                .catch((err: Error) =>
+                    this.logger.error(`[Index] Failed to delete index for ${path}`, err)
+                );
         });
 
-        // 重命名：LanceDB 目前需要先删后加
-        this.events.on(BaizeEvents.FILE_RENAMED, async (oldPath: unknown, newPath: unknown) => {
+        // 重命名：原地改写向量路径，再由索引流程比对内容哈希，内容变化时才重新向量化
+        this.subscribe(BaizeEvents.FILE_RENAMED, async (oldPath: string, newPath: string) => {
+            this.queue.remove(oldPath);
             try {
-                await this.db.delete(oldPath as string);
-                this.addToQueue(newPath as string);
+                const moved: number = await this.db.renamePath(oldPath, newPath);
+                this.options.keywords?.renameFile(oldPath, newPath);
+                this.moveManifestEntry(oldPath, newPath, moved);
             } catch (err) {
+                // 改写失败：按新文件重新索引，原路径残留的向量可通过“校验索引”清理
                 this.logger.error(`[Index] Failed to handle rename ${oldPath} -> ${newPath}`, err);
+                this.manifest.remove(oldPath);
             }
+            this.addToQueue(newPath, IndexPriority.RECENT);
         });
 
-        // 如果模型加载完成，标记就绪并开启队列处理
-        this.events.on(BaizeEvents.MODEL_READY, () => {
-            this.modelReady = true;
-            this.logger.info("[Index] 模型已就绪，开始处理索引队列...");
-            this.processQueue();
+        // 批量变更（同步风暴）：合并为一次对账
+        this.subscribe(BaizeEvents.FILE_BATCH, (batch: unknown) => {
+            this.reconcile(batch as FileChangeBatch).catch((err: Error) =>
+                this.logger.error("[Index] Failed to reconcile batch changes", err)
+            );
         });
+
+        // 如果模型加载完成，标记就绪并开启队列处理
+        this.subscribe(BaizeEvents.MODEL_READY, () => this.markModelReady());
+    }
+
+    /** 订阅事件并记录，便于销毁时取消 */
+    private subscribe(event: string, handler: (...args: any[]) => void) {
+        this.events.on(event, handler);
+        this.subscriptions.push([event, handler]);
+    }
+
+    /** 标记模型就绪并开始处理队列（模型在调度器创建前已加载时直接调用） */
+    markModelReady() {
+        this.modelReady = true;
+        this.chunker = this.createChunker();
+        this.logger.info("[Index] 模型已就绪，开始处理索引队列...");
+        this.processQueue();
+    }
+
+    /** 模型是否已就绪（未就绪时队列中的文件等待模型加载完成） */
+    isModelReady(): boolean {
+        return this.modelReady;
+    }
+
+    /** 按分块配置与模型分词器创建分块器 */
+    private createChunker(chunking = this.options.chunking): MarkdownChunker {
+        return new MarkdownChunker(chunking, this.getTokenCounter());
+    }
+
+    /** 模型分词器（模型加载后才可用，此前按估算） */
+    getTokenCounter(): ITokenCounter {
+        return this.embedder.getTokenCounter?.()
+            ?? new EstimatedTokenCounter(MODEL_MAX_TOKENS[this.options.modelId]);
+    }
+
+    /**
+     * 按当前或指定的分块配置对文件分块，不向量化也不写入索引（用于分块预览）
+     * 分块编号与父级分块 id 与索引时一致
+     * @param chunking - 覆盖当前配置的分块参数
+     */
+    async previewChunks(file: TFile, chunking: Partial<ChunkingOptions> = {}): Promise<ChunkPreview> {
+        const extractor = this.options.extractors.get(file.extension);
+        if (!extractor) throw new IndexError(`不支持的文件类型: ${file.path}`);
+
+        const options = { ...DEFAULT_CHUNKING_OPTIONS, ...this.options.chunking, ...chunking };
+        const chunker = this.createChunker(options);
+        const extracted = await extractor.extract(file);
+        const { title, context } = this.readFileContext(file, extracted);
+        const sections = this.chunkSections(extracted, file.path, title, context, chunker);
+
+        return {
+            sections: extracted.sections.map((section, i) => ({ section, chunks: sections[i] })),
+            options,
+            counter: this.getTokenCounter(),
+        };
+    }
+
+    /**
+     * 调整流水线与分块参数（设置变更时调用，下一轮派发批次时生效）
+     * 分块配置变化后需要 fullSync 才会重新分块已索引的文件
+     */
+    configure(options: IndexPipelineOptions) {
+        this.options = { ...this.options, ...options };
+        const config = chunkingConfigKey(this.options.chunking ?? {});
+        if (config !== this.chunkerConfig) {
+            this.chunker = this.createChunker();
+            this.chunkerConfig = config;
+        }
+    }
+
+    /**
+     * 销毁调度器：取消事件订阅并丢弃队列，等待进行中的批次结束后返回
+     * 用于模型切换后替换旧调度器（返回后即可安全删除其向量库与清单）
+     */
+    async destroy() {
+        for (const [event, handler] of this.subscriptions) {
+            this.events.off(event, handler);
+        }
+        this.subscriptions = [];
+        this.unsubscribeGate?.();
+        this.unsubscribeGate = null;
+        this.queue.clear();
+        this.paused = true;
+        this.disposed = true;
+
+        while (this.isBusy) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
     }
 
     /** 
      * 执行全量同步
-     * 找出库中所有 Markdown 并检查是否需要重新索引
+     * 对比索引清单，只将新增、修改或未完成索引的文件加入队列，
+     * 并清理 Obsidian 关闭期间被删除的文件以及新命中排除规则的文件的向量
      */
-    async fullSync() {
-        this.logger.info("Triggering full vault index scan...");
-        const files = this.app.vault.getMarkdownFiles();
+    async fullSync(options: FullSyncOptions = {}) {
+        this.logger.info(`Triggering full vault index scan${options.force ? " (forced)" : ""}...`);
+        const files = this.app.vault.getFiles()
+            .filter(f => this.options.extractors.supports(f.extension));
 
-        // 目前简单处理：全部加入队列
-        for (const file of files) {
-            if (!this.queue.includes(file.path)) {
-                this.queue.push(file.path);
+        // 清空清单之前记下已索引的文件，强制重建时同样要清理其中已消失或已被排除的文件
+        const indexedPaths = this.manifest.paths();
+        if (options.force) {
+            this.manifest.clear();
+            this.options.keywords?.clear();
+        }
+
+        // 1. 按排除规则筛选需要索引的文件
+        const included = files.filter(f => !this.isExcluded(f));
+        const excluded = files.length - included.length;
+
+        // 2. 清理已从 Vault 中消失或已被排除的文件
+        const includedPaths = new Set(included.map(f => f.path));
+        let removed = 0;
+        for (const path of indexedPaths) {
+            if (includedPaths.has(path)) continue;
+            try {
+                this.queue.remove(path);
+                await this.db.delete(path);
+                this.manifest.remove(path);
+                this.options.keywords?.removeFile(path);
+                removed++;
+            } catch (err) {
+                this.logger.error(`[Index] Failed to delete index for removed file ${path}`, err);
+            }
+        }
+
+        // 3. 只将需要（重新）索引的文件加入队列
+        let queued = 0;
+        for (const file of included) {
+            if (!this.needsIndex(file)) continue;
+            this.queue.enqueue(file.path, IndexPriority.BACKFILL);
+            queued++;
+        }
+
+        this.logger.info(
+            `[Index] Full scan: ${files.length} files, ${queued} to index, ` +
+            `${included.length - queued} unchanged, ${excluded} excluded, ${removed} removed.`
+        );
+
+        if (queued === 0) {
+            await this.saveState();
+            return;
+        }
+
+        const activeFile = this.app.workspace.getActiveFile();
+        if (activeFile) this.prioritize(activeFile.path);
+
+        this.events.emit(BaizeEvents.INDEX_PROGRESS, 0, this.queue.size);
+        this.processQueue();
+    }
+
+    /**
+     * 合并处理一批文件变更（同步工具或 git pull 引起的批量变更）
+     * 1. 删除与重命名合并为一次写入，重命名原地改写向量的路径，不重新向量化
+     * 2. 修改与重命名后的文件与清单比对，只将需要索引的文件加入队列
+     */
+    async reconcile(batch: FileChangeBatch) {
+        const write: VectorWriteBatch = { deleteFiles: [], deleteIds: [], upserts: [] };
+
+        for (const path of batch.deleted) {
+            this.queue.remove(path);
+            write.deleteFiles.push(path);
+        }
+
+        // 重命名在同一次写入中原地改写向量路径
+        write.renames = batch.renamed;
+        for (const [oldPath] of batch.renamed) {
+            this.queue.remove(oldPath);
+        }
+
+        const toCheck = new Set(batch.changed);
+        const revalidate = new Set<string>();
+        try {
+            await this.db.writeBatch(write);
+            for (const path of batch.deleted) {
+                this.manifest.remove(path);
+                this.options.keywords?.removeFile(path);
+            }
+            for (const [oldPath, newPath] of batch.renamed) {
+                this.options.keywords?.renameFile(oldPath, newPath);
+                if (this.moveManifestEntry(oldPath, newPath)) revalidate.add(newPath);
+                toCheck.add(newPath);
+            }
+        } catch (err) {
+            // 改写失败：新路径按新文件重新索引，原路径残留的向量可通过“校验索引”清理
+            this.logger.error("[Index] Failed to apply batch deletes and renames", err);
+            for (const [oldPath, newPath] of batch.renamed) {
+                this.manifest.remove(oldPath);
+                toCheck.add(newPath);
+            }
+        }
+
+        // 展开嵌入时，嵌入了变更笔记的宿主笔记内容未变，需要跳过 mtime 比对重新检查
+        if (this.options.chunking?.resolveEmbeds && batch.changed.length > 0) {
+            for (const host of this.embedHosts(batch.changed)) {
+                toCheck.add(host);
+                revalidate.add(host);
+            }
+        }
+
+        let queued = 0;
+        for (const path of toCheck) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile) || !this.options.extractors.supports(file.extension)) continue;
+
+            // 命中排除规则的已索引文件也入队，由索引流程清理其向量
+            const needed = this.isExcluded(file)
+                ? this.manifest.get(path) !== undefined
+                : revalidate.has(path) || this.needsIndex(file);
+            if (!needed) continue;
+
+            this.queue.enqueue(path, IndexPriority.BACKFILL);
+            queued++;
+        }
+
+        this.logger.info(
+            `[Index] Batch reconcile: ${batch.changed.length} changed, ${batch.deleted.length} deleted, ` +
+            `${batch.renamed.length} renamed in place, ${queued} to index.`
+        );
+
+        await this.saveState();
+        if (queued === 0) {
+            this.emitStatus();
+            return;
+        }
+
+        const activeFile = this.app.workspace.getActiveFile();
+        if (activeFile) this.prioritize(activeFile.path);
+
+        this.events.emit(BaizeEvents.INDEX_PROGRESS, 0, this.queue.size);
+        this.processQueue();
+    }
+
+    /**
+     * 向量已改写到新路径后，同步移动清单记录
+     * - 原路径实际没有向量：移除清单记录，按新文件完整索引
+     * - 文件名变化（标题可能随之变化）：清空内容哈希，使索引流程复用向量并重写元数据
+     * @param movedRecords - 改写的向量记录数（未知时不检查）
+     * @returns 是否需要跳过内容哈希比对重新检查
+     */
+    private moveManifestEntry(oldPath: string, newPath: string, movedRecords?: number): boolean {
+        const moved = this.manifest.rename(oldPath, newPath);
+        if (!moved) return false;
+
+        if (movedRecords === 0 && moved.chunkCount > 0) {
+            this.manifest.remove(newPath);
+            return true;
+        }
+        if (moved.stamp && basename(oldPath) !== basename(newPath)) {
+            moved.stamp = { ...moved.stamp, contentHash: "" };
+            this.manifest.set(moved);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * 直接或间接嵌入了指定文件的已索引笔记（不超过嵌入展开的最大深度）
+     * 通过 resolvedLinks 找到链接了这些文件的笔记，再检查其中的链接是否为嵌入
+     */
+    private embedHosts(paths: string[]): string[] {
+        const { metadataCache } = this.app;
+        const visited = new Set(paths);
+        const hosts: string[] = [];
+        let targets = new Set(paths);
+
+        for (let depth = 0; depth < MAX_EMBED_DEPTH && targets.size > 0; depth++) {
+            const next = new Set<string>();
+            for (const [source, links] of Object.entries(metadataCache.resolvedLinks)) {
+                if (visited.has(source) || !Object.keys(links).some(t => targets.has(t))) continue;
+
+                const file = this.app.vault.getAbstractFileByPath(source);
+                if (!(file instanceof TFile)) continue;
+                const embeds = metadataCache.getFileCache(file)?.embeds ?? [];
+                const embedsTarget = embeds.some(e => {
+                    const dest = metadataCache.getFirstLinkpathDest(getLinkpath(e.link), source);
+                    return dest !== null && targets.has(dest.path);
+                });
+                if (!embedsTarget) continue;
+
+                visited.add(source);
+                next.add(source);
+                if (this.manifest.get(source)) hosts.push(source);
             }
+            targets = next;
         }
+        return hosts;
+    }
+
+    /** 判断文件是否命中排除规则 */
+    private isExcluded(file: TFile): boolean {
+        return this.options.filter.checkFile(file, this.app.metadataCache.getFileCache(file)) !== null;
+    }
+
+    /** 根据索引清单判断文件是否需要（重新）索引 */
+    private needsIndex(file: TFile): boolean {
+        const record = this.manifest.get(file.path);
+        if (!record) return true;
 
-        this.events.emit(BaizeEvents.INDEX_PROGRESS, 0, files.length);
-        this.processQueue(files.length);
+        // 未完成、失败或已过期的记录（例如索引过程中 Obsidian 被关闭）
+        if (record.status !== "indexed") return true;
+
+        // 模型或分块器变更后需要重建
+        if (!record.matchesStamp(this.options.modelId, CHUNKER_VERSION, this.chunkerConfig)) return true;
+
+        return record.isStale(file.stat.mtime, file.stat.size);
     }
 
     /** 加入待处理队列 */
-    private addToQueue(path: string) {
-        if (!this.queue.includes(path)) {
-            this.queue.push(path);
+    private addToQueue(path: string, priority: IndexPriority) {
+        this.queue.enqueue(path, priority);
+        this.processQueue();
+    }
+
+    /**
+     * 提升文件的索引优先级（如当前打开的笔记）
+     * 仅对已在队列中的文件生效
+     */
+    prioritize(path: string) {
+        if (this.queue.promote(path, IndexPriority.ACTIVE)) {
+            this.logger.debug(`[Index] Prioritized: ${path}`);
+        }
+    }
+
+    /** 暂停索引（流水线中的文件处理完后停止，队列保留） */
+    pause() {
+        if (this.paused) return;
+        this.paused = true;
+        this.logger.info(`[Index] Paused. ${this.queue.size} files remaining in queue.`);
+        this.emitStatus();
+    }
+
+    /** 继续索引 */
+    resume() {
+        if (!this.paused) return;
+        this.paused = false;
+        this.logger.info("[Index] Resumed.");
+        this.emitStatus();
+        this.processQueue();
+    }
+
+    /** 取消索引：清空队列（流水线中的文件处理完后停止） */
+    cancel() {
+        const dropped = this.queue.size;
+        this.queue.clear();
+        this.paused = false;
+        this.logger.info(`[Index] Cancelled. Dropped ${dropped} queued files.`);
+        this.emitStatus();
+    }
+
+    /** 立即索引：跳过可跳过的暂缓条件（等待充电、手动模式），处理完当前队列后恢复 */
+    indexNow() {
+        if (this.queue.size === 0) return;
+        this.overrideHold = true;
+        this.logger.info(`[Index] Indexing now. ${this.queue.size} files in queue.`);
+        this.emitStatus();
+        this.processQueue();
+    }
+
+    /** 当前被索引闸门暂缓的原因，允许索引时返回 null */
+    private holdReason(): string | null {
+        const state = this.options.gate?.getState();
+        if (!state?.reason) return null;
+        if (state.overridable && this.overrideHold) return null;
+        return state.reason;
+    }
+
+    /** 是否停止处理队列（用户暂停或被闸门暂缓） */
+    private isHalted(): boolean {
+        return this.paused || this.holdReason() !== null;
+    }
+
+    /** 闸门状态变化：放行时继续处理队列 */
+    private onGateChange() {
+        if (this.disposed) return;
+        const reason = this.holdReason();
+        if (reason) {
+            this.logger.info(`[Index] Deferred: ${reason}. ${this.queue.size} files in queue.`);
         }
+        this.emitStatus();
         this.processQueue();
     }
 
-    /** 处理队列 */
-    private async processQueue(totalForProgress?: number) {
-        if (this.isBusy || this.queue.length === 0) return;
+    /** 重新索引所有失败的文件 */
+    retryFailed(): number {
+        const failed = this.manifest.pathsWithStatus("error");
+        for (const path of failed) {
+            this.queue.enqueue(path, IndexPriority.RECENT);
+        }
+        this.logger.info(`[Index] Retrying ${failed.length} failed files.`);
+        this.processQueue();
+        return failed.length;
+    }
+
+    /** 重新索引单个文件 */
+    retry(path: string) {
+        this.addToQueue(path, IndexPriority.RECENT);
+    }
+
+    /**
+     * 强制重新索引指定文件（索引校验修复时使用）
+     * 先移除清单记录，使内容哈希不再命中跳过逻辑，并清空该文件的全部旧向量后重建
+     */
+    reindex(paths: string[]) {
+        for (const path of paths) {
+            this.manifest.remove(path);
+            this.queue.enqueue(path, IndexPriority.RECENT);
+        }
+        this.logger.info(`[Index] Reindexing ${paths.length} files.`);
+        this.processQueue();
+    }
+
+    /** 文件是否在等待索引 */
+    isQueued(path: string): boolean {
+        return this.queue.has(path);
+    }
+
+    /** 所有索引失败的文件及原因（跨重启持久化在索引清单中） */
+    getFailures(): IndexFailure[] {
+        return this.manifest.filesWithStatus("error").map(f => ({
+            path: f.path,
+            reason: f.error ?? "未知错误",
+        }));
+    }
+
+    /** 将文件移出索引：删除其向量与清单记录，并从队列中移除 */
+    async forget(path: string) {
+        this.queue.remove(path);
+        await this.db.delete(path);
+        this.manifest.remove(path);
+        this.options.keywords?.removeFile(path);
+        await this.saveState();
+        this.emitStatus();
+    }
+
+    /**
+     * 处理队列（流水线）
+     * 1. 读取并分块：持续准备文件，直到待向量化的分块足够填满所有并行批次
+     * 2. 向量化：跨文件凑满批次后提交给 Embedder，最多同时处理 embedConcurrency 个批次
+     * 3. 入库：所有分块都已向量化的文件按组合并为一次写入
+     */
+    private async processQueue() {
+        if (this.isBusy || this.isHalted() || this.queue.size === 0) return;
 
         // 检查模型是否准备好
         if (!this.modelReady) {
@@ -114,86 +730,494 @@ export class IndexScheduler {
         }
 
         this.isBusy = true;
-        let processed = 0;
-        const initialTotal = totalForProgress || this.queue.length;
+        this.emitStatus();
+        const run: PipelineRun = {
+            processed: 0,
+            lastSaved: 0,
+            inPipeline: 0,
+            embedQueue: [],
+            ready: [],
+            inFlight: new Set(),
+            failures: [],
+        };
+        let lastYield = Date.now();
 
         try {
-            while (this.queue.length > 0) {
-                const path = this.queue.shift()!;
-                await this.indexFile(path);
+            while (true) {
+                const batchSize = this.options.embedBatchSize ?? DEFAULT_EMBED_BATCH_SIZE;
+                const concurrency = this.options.embedConcurrency ?? DEFAULT_EMBED_CONCURRENCY;
 
-                processed++;
-                if (totalForProgress) {
-                    this.events.emit(BaizeEvents.INDEX_PROGRESS, processed, initialTotal);
+                // 销毁后丢弃尚未入库的文件（下次同步时重新索引）
+                if (this.disposed) {
+                    run.embedQueue = [];
+                    run.ready = [];
                 }
 
-                // 避免长时间占满主线程
-                await new Promise(resolve => setTimeout(resolve, 30));
+                // 1. 读取并分块
+                while (
+                    !this.isHalted() && this.queue.size > 0 &&
+                    run.embedQueue.length < batchSize * concurrency &&
+                    run.ready.length < COMMIT_GROUP_SIZE
+                ) {
+                    const path = this.queue.dequeue()!;
+                    this.currentPath = path;
+                    await this.prepareFile(run, path);
+
+                    // 避免长时间占满主线程
+                    if (Date.now() - lastYield > YIELD_AFTER_MS) {
+                        await new Promise(resolve => setTimeout(resolve, 0));
+                        lastYield = Date.now();
+                    }
+                }
+
+                // 队列已空、已暂停或被暂缓：不再等待凑满批次
+                const draining = this.isHalted() || this.queue.size === 0;
+
+                // 2. 派发向量化批次
+                while (
+                    run.inFlight.size < concurrency &&
+                    (run.embedQueue.length >= batchSize || (draining && run.embedQueue.length > 0))
+                ) {
+                    const jobs = run.embedQueue.splice(0, batchSize).filter(j => !j.file.failed);
+                    if (jobs.length === 0) continue;
+                    const task: Promise<void> = this.embedJobs(run, jobs)
+                        .finally(() => run.inFlight.delete(task));
+                    run.inFlight.add(task);
+                }
+
+                // 3. 按组入库
+                const pipelineIdle = run.inFlight.size === 0 && run.embedQueue.length === 0;
+                if (run.ready.length >= COMMIT_GROUP_SIZE || (run.ready.length > 0 && (draining || pipelineIdle))) {
+                    await this.commitGroup(run, run.ready.splice(0));
+                }
+
+                if (run.processed - run.lastSaved >= MANIFEST_SAVE_INTERVAL) {
+                    await this.saveState();
+                    run.lastSaved = run.processed;
+                }
+
+                if (draining && pipelineIdle && run.ready.length === 0) break;
+
+                // 等待任一批次完成后继续
+                if (run.inFlight.size > 0 && (draining || run.embedQueue.length >= batchSize * concurrency)) {
+                    await Promise.race(run.inFlight);
+                }
             }
         } catch (err) {
-            this.events.emit(BaizeEvents.INDEX_ERROR, err);
+            // 单文件失败已在流水线内记录，这里只会是调度器自身的异常
+            this.logger.error("[Index] Queue processing aborted:", err);
+            run.failures.push({
+                path: this.currentPath ?? "",
+                reason: err instanceof Error ? err.message : String(err),
+            });
+            await Promise.allSettled(run.inFlight);
         } finally {
+            this.currentPath = null;
+            await this.saveState();
+            if (run.failures.length > 0 && !this.disposed) {
+                const payload: IndexErrorPayload = {
+                    failures: run.failures,
+                    totalFailed: this.manifest.pathsWithStatus("error").length,
+                };
+                this.events.emit(BaizeEvents.INDEX_ERROR, payload);
+            }
             this.isBusy = false;
-            this.events.emit(BaizeEvents.INDEX_COMPLETE);
-            this.logger.info(`[Index] Indexing queue cleared. Processed ${processed} files.`);
+            const halted = this.isHalted();
+            if (!halted) {
+                this.events.emit(BaizeEvents.INDEX_COMPLETE);
+            }
+            if (this.queue.size === 0) {
+                this.overrideHold = false;
+            }
+            this.emitStatus();
+            this.logger.info(
+                `[Index] Indexing queue ${this.paused ? "paused" : halted ? "deferred" : "cleared"}. ` +
+                `Processed ${run.processed} files.`
+            );
         }
+
+        // 处理期间新加入的任务
+        if (!this.isHalted() && this.queue.size > 0) {
+            this.processQueue();
+        }
+    }
+
+    /** 将索引清单与关键词索引落盘 */
+    private async saveState() {
+        await this.manifest.save();
+        await this.options.keywords?.save();
     }
 
-    /** 对单个文件执行端到端索引流程 */
-    private async indexFile(path: string) {
+    /** 广播调度器状态（供状态栏等 UI 使用） */
+    private emitStatus() {
+        if (this.disposed) return;
+        this.events.emit(BaizeEvents.INDEX_STATE, this.getStatus());
+    }
+
+    /**
+     * 流水线第 1 步：读取、提取并分块单个文件
+     * 可复用的旧向量直接填入，其余分块加入待向量化队列；无需入库的文件直接结束
+     */
+    private async prepareFile(run: PipelineRun, path: string): Promise<void> {
         const file = this.app.vault.getAbstractFileByPath(path);
-        if (!(file instanceof TFile)) return;
+        if (!(file instanceof TFile)) return this.finishFile(run);
+
+        const extractor = this.options.extractors.get(file.extension);
+        if (!extractor) return this.finishFile(run);
+
+        const record = new BaizeFile(file);
+        record.markAsPending();
 
         try {
-            // 1. 读取
-            const content = await this.app.vault.read(file);
+            // 命中排除规则（如新增了 baize: false 或排除标签）：清理已有索引
+            const excludedReason = this.options.filter.checkFile(file, this.app.metadataCache.getFileCache(file));
+            if (excludedReason) {
+                if (this.manifest.get(path)) {
+                    await this.db.delete(path);
+                    this.manifest.remove(path);
+                    this.options.keywords?.removeFile(path);
+                }
+                this.logger.debug(`[Index] Excluded (${excludedReason}): ${path}`);
+                return this.finishFile(run);
+            }
+
+            // 1. 读取并提取文本
+            let extracted = await extractor.extract(file);
             const stats = file.stat;
+            const stamp: IndexStamp = {
+                contentHash: hashString(JSON.stringify(extracted)),
+                modelId: this.options.modelId,
+                chunkerVersion: CHUNKER_VERSION,
+                chunkerConfig: this.chunkerConfig,
+            };
+
+            // 内容未变（仅 mtime 变化，如同步工具 touch 文件）：只更新清单
+            const previous = this.manifest.get(path);
+            if (
+                previous?.status === "indexed" &&
+                previous.matchesStamp(stamp.modelId, stamp.chunkerVersion, stamp.chunkerConfig) &&
+                previous.stamp?.contentHash === stamp.contentHash
+            ) {
+                previous.mtime = stats.mtime;
+                previous.size = stats.size;
+                this.manifest.set(previous);
+                this.logger.debug(`[Index] Content unchanged, skipped: ${path}`);
+                return this.finishFile(run);
+            }
 
             // 2. 提取元数据
-            const cache = this.app.metadataCache.getFileCache(file);
-            const title = cache?.frontmatter?.title || file.basename;
-            const tags = (cache?.tags?.map(t => t.tag) || [])
-                .concat(cache?.frontmatter?.tags || []);
+            const { title, tags, properties, context } = this.readFileContext(file, extracted);
 
             // 3. 分块
-            const chunks = this.chunker.chunk(content, file.path, title);
-            if (chunks.length === 0) {
-                await this.db.delete(path);
-                return;
+            let chunks = this.chunkDocument(extracted, file.path, title, context);
+
+            // 为不含块 ID 的分块写入块 ID，写入后重新提取并分块
+            // 写入触发的修改事件会因内容哈希未变而跳过
+            if (this.options.assignBlockIds && file.extension === "md" && await this.assignBlockIds(file, extracted, chunks)) {
+                extracted = await extractor.extract(file);
+                stamp.contentHash = hashString(JSON.stringify(extracted));
+                chunks = this.chunkDocument(extracted, file.path, title, context);
+            }
+
+            // 4. 对比已入库的分块，仅对内容变化的分块向量化
+            // 模型变更或强制重建时（清单中无同模型记录）不复用旧向量
+            const existing: VectorRecord[] = chunks.length > 0 && previous?.stamp?.modelId === this.options.modelId
+                ? await this.db.getByFile(path)
+                : [];
+            const reusable = new Map<string, VectorRecord[]>();
+            for (const r of existing) {
+                if (!r.content_hash) continue;
+                const list = reusable.get(r.content_hash) ?? [];
+                list.push(r);
+                reusable.set(r.content_hash, list);
+            }
+
+            const hashes = chunks.map(c => hashString(embeddingText(c.text, c.metadata)));
+            const vectors: (number[] | undefined)[] = hashes.map(h => reusable.get(h)?.shift()?.vector);
+            const pending = chunks.map((_, i) => i).filter(i => !vectors[i]);
+
+            const prepared: PreparedFile = {
+                path, record, stamp, chunks, hashes, vectors, existing, tags,
+                properties: Object.keys(properties).length > 0 ? properties : undefined,
+                size: stats.size,
+                mtime: stats.mtime,
+                remaining: pending.length,
+                embedded: pending.length,
+            };
+            run.inPipeline++;
+
+            if (pending.length === 0) {
+                run.ready.push(prepared);
+            } else {
+                this.logger.debug(`[Index] Queued ${pending.length}/${chunks.length} chunks for embedding: ${path}`);
+                for (const chunkIndex of pending) {
+                    run.embedQueue.push({ file: prepared, chunkIndex });
+                }
+            }
+        } catch (err) {
+            this.failFile(run, record, err);
+        }
+    }
+
+    /** 流水线第 2 步：向量化一个（可能跨多个文件的）批次 */
+    private async embedJobs(run: PipelineRun, jobs: EmbedJob[]): Promise<void> {
+        try {
+            const embedded = await this.embedder.embedBatch(jobs.map(j => {
+                const chunk = j.file.chunks[j.chunkIndex];
+                return embeddingText(chunk.text, chunk.metadata);
+            }));
+            if (embedded.length !== jobs.length) {
+                throw new IndexError(`向量数量不匹配: 期望 ${jobs.length}，实际 ${embedded.length}`);
             }
 
-            // 4. 向量化
-            this.logger.debug(`[Index] Embedding ${chunks.length} chunks for: ${path}`);
-            const texts = chunks.map(c => c.text);
-            const vectors = await this.embedder.embedBatch(texts);
+            jobs.forEach((job, i) => {
+                const file = job.file;
+                if (file.failed) return;
+                file.vectors[job.chunkIndex] = embedded[i];
+                file.remaining--;
+                if (file.remaining === 0) run.ready.push(file);
+            });
+        } catch (err) {
+            for (const file of new Set(jobs.map(j => j.file))) {
+                if (file.failed) continue;
+                run.inPipeline--;
+                this.failFile(run, file.record, err);
+                file.failed = true;
+            }
+        }
+    }
 
-            // 5. 入库
-            const records: VectorRecord[] = chunks.map((chunk, i) => ({
+    /**
+     * 流水线第 3 步：将一组文件的变更合并为一次写入
+     * 只写入新增或变化的记录，删除已不存在的分块；写入失败时整组标记为失败
+     */
+    private async commitGroup(run: PipelineRun, files: PreparedFile[]): Promise<void> {
+        const batch: VectorWriteBatch = { deleteFiles: [], deleteIds: [], upserts: [], parentFiles: [], parents: [] };
+        const now = new Date().toISOString();
+        // 写入成功后同步到关键词索引的分块
+        const keywordFiles: [string, VectorRecord[]][] = [];
+
+        for (const file of files) {
+            const records: VectorRecord[] = file.chunks.map((chunk, i) => ({
                 id: chunk.vectorId,
-                file_path: path,
+                file_path: file.path,
                 chunk_index: i,
                 text: chunk.text,
-                vector: vectors[i],
+                content_hash: file.hashes[i],
+                vector: file.vectors[i]!,
                 metadata: {
                     ...chunk.metadata,
-                    tags,
-                    file_size: stats.size,
-                    file_mtime: stats.mtime
+                    tags: file.tags,
+                    ...(file.properties ? { properties: file.properties } : {}),
+                    file_size: file.size,
+                    file_mtime: file.mtime,
+                    offset_start: chunk.offsetStart,
+                    offset_end: chunk.offsetEnd,
+                    line_start: chunk.lineStart,
+                    line_end: chunk.lineEnd,
                 },
-                updated_at: new Date().toISOString()
+                updated_at: now,
             }));
 
-            await this.db.upsert(records);
+            const existingById = new Map(file.existing.map(r => [r.id, r]));
+            const changed = records.filter(r => !this.isSameRecord(existingById.get(r.id), r));
+            const newIds = new Set(records.map(r => r.id));
+            const removedIds = file.existing.filter(r => !newIds.has(r.id)).map(r => r.id);
+
+            if (file.existing.length === 0) {
+                // 无可比对的旧记录（首次索引、模型变更或已无分块），清理该文件的全部旧向量
+                batch.deleteFiles.push(file.path);
+            } else {
+                batch.deleteIds.push(...removedIds);
+            }
+            batch.upserts.push(...changed);
+            keywordFiles.push([file.path, records]);
+            batch.parentFiles!.push(file.path);
+            batch.parents!.push(...this.parentRecords(file, now));
 
+            this.logger.debug(
+                `[Index] ${file.path}: ${file.embedded} embedded, ${changed.length} written, ` +
+                `${removedIds.length} removed, ${file.chunks.length - changed.length} unchanged.`
+            );
+        }
+
+        try {
+            await this.db.writeBatch(batch);
         } catch (err) {
-            this.logger.error(`[Index] Failed to process ${path}:`, err);
+            for (const file of files) {
+                run.inPipeline--;
+                this.failFile(run, file.record, err);
+            }
+            return;
+        }
+
+        for (const [path, records] of keywordFiles) {
+            this.options.keywords?.setFile(path, records);
         }
+        for (const file of files) {
+            file.record.markAsIndexed(file.chunks, file.stamp);
+            this.manifest.set(file.record);
+            run.inPipeline--;
+            this.finishFile(run);
+        }
+    }
+
+    /** 记录单个文件的索引失败（同时写入清单） */
+    private failFile(run: PipelineRun, record: BaizeFile, err: unknown) {
+        this.logger.error(`[Index] Failed to process ${record.path}:`, err);
+        const reason = err instanceof Error ? err.message : String(err);
+        record.markAsError(reason);
+        this.manifest.set(record);
+        run.failures.push({ path: record.path, reason });
+        this.finishFile(run);
+    }
+
+    /** 文件处理结束（成功、跳过或失败），更新进度 */
+    private finishFile(run: PipelineRun) {
+        run.processed++;
+        this.events.emit(
+            BaizeEvents.INDEX_PROGRESS,
+            run.processed,
+            run.processed + run.inPipeline + this.queue.size
+        );
+    }
+
+    /**
+     * 文件的标题、标签、属性与上下文标题所需的信息
+     * 行内字段只从 Markdown 正文中解析
+     */
+    private readFileContext(file: TFile, extracted: ExtractedDocument) {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const title = extracted.title || file.basename;
+        const tags = (cache?.tags?.map(t => t.tag) || [])
+            .concat(cache?.frontmatter?.tags || []);
+        const properties = readProperties(
+            cache?.frontmatter,
+            file.extension === "md" ? extracted.sections[0]?.text : undefined
+        );
+        const context: ChunkContext = {
+            properties: pickProperties(properties, this.options.chunking?.contextProperties ?? []),
+            tags: [...new Set(tags.map(t => String(t).replace(/^#/, "")))],
+        };
+        return { title, tags, properties, context };
+    }
+
+    /**
+     * 逐段分块并统一编号（分块为 `路径::序号`，父级分块为 `路径::p序号`）
+     * @param context - 文件的属性与标签（用于上下文标题）
+     */
+    private chunkDocument(doc: ExtractedDocument, path: string, title: string, context: ChunkContext): BaizeChunk[] {
+        return this.chunkSections(doc, path, title, context, this.chunker).flat();
+    }
+
+    /**
+     * 逐段分块，按段落返回（编号跨段落连续）
+     * 段落的上级标题、页码、Canvas 节点写入分块元数据，供搜索结果定位
+     */
+    private chunkSections(
+        doc: ExtractedDocument,
+        path: string,
+        title: string,
+        context: ChunkContext,
+        chunker: MarkdownChunker
+    ): BaizeChunk[][] {
+        let chunkCount = 0;
+        let parentCount = 0;
+        return doc.sections.map(section => {
+            const sectionContext = { ...context, headings: section.headings };
+            const chunks = chunker.chunk(section.text, path, title, section.embeds, sectionContext);
+            for (const chunk of chunks) {
+                chunk.index = chunkCount++;
+                chunk.vectorId = `${path}::${chunk.index}`;
+                if (section.page !== undefined) chunk.metadata.page = section.page;
+                if (section.nodeId !== undefined) chunk.metadata.node_id = section.nodeId;
+                if (chunk.parent) {
+                    if (!chunk.parent.id) chunk.parent.id = `${path}::p${parentCount++}`;
+                    chunk.metadata.parent_id = chunk.parent.id;
+                }
+            }
+            return chunks;
+        });
+    }
+
+    /** 文件的父级分块记录（页码、Canvas 节点取自其第一个子分块） */
+    private parentRecords(file: PreparedFile, now: string): ParentRecord[] {
+        const parents = new Map<ParentChunk, BaizeChunk>();
+        for (const chunk of file.chunks) {
+            if (chunk.parent && !parents.has(chunk.parent)) parents.set(chunk.parent, chunk);
+        }
+        return [...parents].map(([parent, child]) => ({
+            id: parent.id,
+            file_path: file.path,
+            text: parent.text,
+            metadata: {
+                title: child.metadata.title,
+                headings: parent.headings,
+                offset_start: parent.offsetStart,
+                offset_end: parent.offsetEnd,
+                line_start: parent.lineStart,
+                line_end: parent.lineEnd,
+                ...(child.metadata.page !== undefined ? { page: child.metadata.page } : {}),
+                ...(child.metadata.node_id !== undefined ? { node_id: child.metadata.node_id } : {}),
+            },
+            updated_at: now,
+        }));
     }
 
-    getStatus() {
+    /**
+     * 在笔记中写入块 ID
+     * 文件在提取后已被修改时放弃写入，留待下次索引
+     * @returns 是否写入了块 ID
+     */
+    private async assignBlockIds(file: TFile, doc: ExtractedDocument, chunks: BaizeChunk[]): Promise<boolean> {
+        const text = doc.sections[0]?.text;
+        if (text === undefined || doc.sections.length !== 1) return false;
+
+        const insertions = planBlockIds(text, chunks);
+        if (insertions.length === 0) return false;
+
+        let written = false;
+        await this.app.vault.process(file, data => {
+            if (data !== text) return data;
+            written = true;
+            return applyBlockIds(data, insertions);
+        });
+        if (written) this.logger.debug(`[Index] Assigned ${insertions.length} block ids: ${file.path}`);
+        return written;
+    }
+
+    /**
+     * 判断新记录与已入库记录是否等价（无需重写）
+     * 文件大小与修改时间每次保存都会变化，不参与比较
+     */
+    private isSameRecord(prev: VectorRecord | undefined, next: VectorRecord): boolean {
+        if (!prev || prev.content_hash !== next.content_hash || prev.chunk_index !== next.chunk_index) {
+            return false;
+        }
+        const stable = ({ file_size: _s, file_mtime: _m, ...rest }: VectorRecord["metadata"]) => rest;
+        return JSON.stringify(stable(prev.metadata)) === JSON.stringify(stable(next.metadata));
+    }
+
+    getStatus(): IndexSchedulerStatus {
+        const holdReason = this.holdReason();
         return {
+            state: this.paused
+                ? "paused"
+                : this.isBusy
+                    ? "indexing"
+                    : holdReason && this.queue.size > 0 ? "deferred" : "idle",
             isBusy: this.isBusy,
-            queueLength: this.queue.length
+            queueLength: this.queue.size,
+            currentPath: this.currentPath,
+            failedCount: this.manifest.pathsWithStatus("error").length,
+            holdReason,
         };
     }
 }
+
+/** 路径中的文件名（不含扩展名） */
+function basename(path: string): string {
+    const name = path.slice(path.lastIndexOf("/") + 1);
+    const dot = name.lastIndexOf(".");
+    return dot > 0 ? name.slice(0, dot) : name;
+}
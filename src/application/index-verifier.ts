@@ -0,0 +1,222 @@
+/**
+ * 白泽 Baize - 索引健康检查
+ * 
+ * 将 Vault 文件列表、索引清单与向量库中的全部记录逐一比对，找出：
+ * - 缺失：应索引的文件没有向量记录
+ * - 残留：已删除、已重命名或已排除文件留下的向量与清单记录
+ * - 过期：文件在上次索引后被修改，或分块数与清单不一致
+ * - 维度错误、重复 id、含 NaN / Infinity 的向量
+ * 
+ * 修复时残留记录直接删除，其余问题交给调度器强制重建对应文件
+ */
+import { App, TFile } from "obsidian";
+import type { Logger } from "../shared/logger";
+import type { IVectorStore } from "../domain/interfaces/vector-store";
+import type { VectorRecord } from "../infrastructure/database/schema";
+import type { IndexManifest } from "../infrastructure/storage/index-manifest";
+import type { PathFilter } from "../domain/filters/path-filter";
+import type { ExtractorRegistry } from "../infrastructure/extractors/extractor-registry";
+import type { IndexScheduler } from "./index-scheduler";
+
+/** 问题类型 */
+export type IndexIssueKind = "missing" | "orphaned" | "stale" | "dimension" | "duplicate" | "invalid-vector";
+
+/** 单个文件的索引问题 */
+export interface IndexIssue {
+    kind: IndexIssueKind;
+    path: string;
+    detail: string;
+}
+
+/** 校验报告 */
+export interface IndexHealthReport {
+    /** 校验时间（ISO 8601 字符串） */
+    checkedAt: string;
+    /** 应索引的文件数 */
+    fileCount: number;
+    /** 向量库中的记录数 */
+    recordCount: number;
+    issues: IndexIssue[];
+}
+
+/** 修复结果 */
+export interface IndexRepairResult {
+    /** 已删除残留记录的文件数 */
+    removed: number;
+    /** 已加入重建队列的文件数 */
+    reindexed: number;
+}
+
+/** 问题类型的显示名称 */
+export const INDEX_ISSUE_LABELS: Record<IndexIssueKind, string> = {
+    "missing": "缺失",
+    "orphaned": "残留",
+    "stale": "过期",
+    "dimension": "维度错误",
+    "duplicate": "重复 id",
+    "invalid-vector": "无效向量",
+};
+
+/** 单个文件的向量记录统计 */
+interface RecordStats {
+    count: number;
+    wrongDimensions: number;
+    invalidVectors: number;
+    duplicateIds: number;
+}
+
+export class IndexVerifier {
+    private app: App;
+    private store: IVectorStore;
+    private manifest: IndexManifest;
+    private scheduler: IndexScheduler;
+    private filter: PathFilter;
+    private extractors: ExtractorRegistry;
+    private logger: Logger;
+
+    constructor(
+        app: App,
+        store: IVectorStore,
+        manifest: IndexManifest,
+        scheduler: IndexScheduler,
+        filter: PathFilter,
+        extractors: ExtractorRegistry,
+        logger: Logger
+    ) {
+        this.app = app;
+        this.store = store;
+        this.manifest = manifest;
+        this.scheduler = scheduler;
+        this.filter = filter;
+        this.extractors = extractors;
+        this.logger = logger;
+    }
+
+    /** 执行一次完整校验 */
+    async verify(): Promise<IndexHealthReport> {
+        const started = Date.now();
+        const expected = new Map<string, TFile>();
+        for (const file of this.app.vault.getFiles()) {
+            if (!this.extractors.supports(file.extension)) continue;
+            if (this.filter.checkFile(file, this.app.metadataCache.getFileCache(file)) !== null) continue;
+            expected.set(file.path, file);
+        }
+
+        const records = await this.store.getAll();
+        const stats = this.collectStats(records, this.store.getProfile().dimensions);
+        const issues: IndexIssue[] = [];
+
+        // 1. 向量库中的记录
+        for (const [path, s] of stats) {
+            if (!expected.has(path)) {
+                issues.push({ kind: "orphaned", path, detail: `文件不存在或已排除，残留 ${s.count} 条向量记录` });
+                continue;
+            }
+            if (s.wrongDimensions > 0) {
+                issues.push({
+                    kind: "dimension",
+                    path,
+                    detail: `${s.wrongDimensions} 条记录的维度与索引 (${this.store.getProfile().dimensions} 维) 不一致`,
+                });
+            }
+            if (s.invalidVectors > 0) {
+                issues.push({ kind: "invalid-vector", path, detail: `${s.invalidVectors} 条记录含 NaN 或 Infinity` });
+            }
+            if (s.duplicateIds > 0) {
+                issues.push({ kind: "duplicate", path, detail: `${s.duplicateIds} 条记录的 id 重复` });
+            }
+        }
+
+        // 2. 清单中残留的记录（向量已不存在）
+        for (const path of this.manifest.paths()) {
+            if (!expected.has(path) && !stats.has(path)) {
+                issues.push({ kind: "orphaned", path, detail: "文件不存在或已排除，清单中残留索引记录" });
+            }
+        }
+
+        // 3. 应索引的文件（等待索引或失败的文件不计入，失败文件见失败报告）
+        for (const [path, file] of expected) {
+            if (this.scheduler.isQueued(path)) continue;
+
+            const entry = this.manifest.get(path);
+            const s = stats.get(path);
+            const count = s ? s.count - s.duplicateIds : 0;
+            if (!entry) {
+                issues.push({ kind: "missing", path, detail: "尚未索引" });
+            } else if (entry.status === "error") {
+                continue;
+            } else if (entry.status !== "indexed") {
+                issues.push({ kind: "missing", path, detail: "上次索引未完成" });
+            } else if (count === 0 && entry.chunkCount > 0) {
+                issues.push({ kind: "missing", path, detail: `清单记录 ${entry.chunkCount} 个分块，向量库中没有记录` });
+            } else if (count !== entry.chunkCount) {
+                issues.push({ kind: "stale", path, detail: `向量库中有 ${count} 条记录，清单记录 ${entry.chunkCount} 个分块` });
+            } else if (entry.isStale(file.stat.mtime, file.stat.size)) {
+                issues.push({ kind: "stale", path, detail: "文件在上次索引后已被修改" });
+            }
+        }
+
+        issues.sort((a, b) => a.path.localeCompare(b.path));
+        this.logger.info(
+            `[Verify] 校验完成: ${expected.size} 个文件, ${records.length} 条记录, ` +
+            `${issues.length} 个问题 (${Date.now() - started}ms)`
+        );
+
+        return {
+            checkedAt: new Date().toISOString(),
+            fileCount: expected.size,
+            recordCount: records.length,
+            issues,
+        };
+    }
+
+    /** 按报告修复：删除残留记录，其余问题文件强制重建 */
+    async repair(report: IndexHealthReport): Promise<IndexRepairResult> {
+        const orphaned = new Set<string>();
+        const reindex = new Set<string>();
+        for (const issue of report.issues) {
+            if (issue.kind === "orphaned") orphaned.add(issue.path);
+            else reindex.add(issue.path);
+        }
+
+        let removed = 0;
+        for (const path of orphaned) {
+            try {
+                await this.scheduler.forget(path);
+                removed++;
+            } catch (err) {
+                this.logger.error(`[Verify] 删除残留记录失败: ${path}`, err);
+            }
+        }
+
+        // 修复前文件可能已被删除或排除
+        const paths = [...reindex].filter(p => this.app.vault.getAbstractFileByPath(p) instanceof TFile);
+        if (paths.length > 0) {
+            this.scheduler.reindex(paths);
+        }
+
+        this.logger.info(`[Verify] 修复: 删除 ${removed} 个文件的残留记录，重建 ${paths.length} 个文件`);
+        return { removed, reindexed: paths.length };
+    }
+
+    /** 按文件统计记录数、维度错误、无效向量与重复 id */
+    private collectStats(records: VectorRecord[], dimensions: number): Map<string, RecordStats> {
+        const stats = new Map<string, RecordStats>();
+        const seenIds = new Set<string>();
+
+        for (const record of records) {
+            let s = stats.get(record.file_path);
+            if (!s) {
+                s = { count: 0, wrongDimensions: 0, invalidVectors: 0, duplicateIds: 0 };
+                stats.set(record.file_path, s);
+            }
+
+            s.count++;
+            if (record.vector.length !== dimensions) s.wrongDimensions++;
+            if (record.vector.some(v => !Number.isFinite(v))) s.invalidVectors++;
+            if (seenIds.has(record.id)) s.duplicateIds++;
+            seenIds.add(record.id);
+        }
+        return stats;
+    }
+}
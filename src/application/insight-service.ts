@@ -100,8 +100,8 @@ export class InsightService {
                 }
             }
 
-            // 3. 搜索相关片段（调用 searchService.searchByVector）
-            const rawResults = await this.searchService.searchByVector(avgVector, 10, 0.4);
+            // 3. 搜索相关片段（调用 searchService.searchByVector，按开头分块重排序）
+            const rawResults = await this.searchService.searchByVector(avgVector, 10, 0.4, undefined, texts[0]);
 
             // 4. 过滤掉来自当前文件的片段
             const filteredResults = rawResults.filter(res => {
@@ -0,0 +1,284 @@
+/**
+ * 白泽 Baize - 模型切换迁移
+ * 
+ * 切换 Embedding 模型时：
+ * 1. 加载新模型并探测向量维度，在索引目录中登记待构建索引
+ * 2. 使用独立的调度器在后台构建新索引，期间旧索引继续提供搜索
+ * 3. 新索引构建完成后原子切换，并清理旧索引
+ * 
+ * 后台调度器挂在私有事件总线上：只转发文件变更事件给它，
+ * 它的进度事件转换为 MIGRATION_STATE，不干扰当前索引的状态显示
+ */
+import { EventBus, BaizeEvents } from "../shared/event-bus";
+import type { Logger } from "../shared/logger";
+import type { IEmbedder } from "../domain/interfaces/embedder";
+import type { IVectorStore } from "../domain/interfaces/vector-store";
+import type { IndexManifest } from "../infrastructure/storage/index-manifest";
+import type { KeywordIndex } from "../infrastructure/storage/keyword-index";
+import type { IndexCatalog, IndexDescriptor } from "../infrastructure/storage/index-catalog";
+import type { IndexScheduler } from "./index-scheduler";
+
+/** 一个已打开的向量索引 */
+export interface IndexHandle {
+    descriptor: IndexDescriptor;
+    store: IVectorStore;
+    manifest: IndexManifest;
+    keywords: KeywordIndex;
+}
+
+/** 迁移所需的宿主能力（由插件入口提供） */
+export interface MigrationHost {
+    /** 加载 Embedding 模型 */
+    loadEmbedder(modelId: string): Promise<IEmbedder>;
+
+    /** 打开（或创建）索引对应的向量库与清单 */
+    openIndex(descriptor: IndexDescriptor): Promise<IndexHandle>;
+
+    /** 为索引创建调度器 */
+    createScheduler(events: EventBus, index: IndexHandle, embedder: IEmbedder): IndexScheduler;
+
+    /** 切换到新索引对外提供搜索，并清理旧索引 */
+    activate(index: IndexHandle, embedder: IEmbedder): Promise<void>;
+}
+
+/** 迁移状态 */
+export interface MigrationStatus {
+    state: "idle" | "preparing" | "building" | "swapping" | "error";
+    /** 目标模型 */
+    modelId: string | null;
+    /** 已处理 / 总文件数（building 阶段） */
+    done: number;
+    total: number;
+    error?: string;
+}
+
+/** 转发给后台调度器的文件变更事件 */
+const FORWARDED_EVENTS = [
+    BaizeEvents.FILE_CHANGED,
+    BaizeEvents.FILE_DELETED,
+    BaizeEvents.FILE_RENAMED,
+    BaizeEvents.FILE_BATCH,
+];
+
+/** 探测向量维度时使用的文本 */
+const PROBE_TEXT = "dimension probe";
+
+interface MigrationJob {
+    modelId: string;
+    cancelled: boolean;
+    completing: boolean;
+    embedder?: IEmbedder;
+    index?: IndexHandle;
+    scheduler?: IndexScheduler;
+    bus?: EventBus;
+    forwarders: [string, (...args: unknown[]) => void][];
+}
+
+export class ModelMigration {
+    private events: EventBus;
+    private logger: Logger;
+    private catalog: IndexCatalog;
+    private host: MigrationHost;
+    private job: MigrationJob | null = null;
+    private status: MigrationStatus = { state: "idle", modelId: null, done: 0, total: 0 };
+
+    constructor(events: EventBus, logger: Logger, catalog: IndexCatalog, host: MigrationHost) {
+        this.events = events;
+        this.logger = logger;
+        this.catalog = catalog;
+        this.host = host;
+    }
+
+    /**
+     * 切换到指定模型
+     * - 与当前索引相同：取消进行中的迁移
+     * - 与进行中的迁移相同：忽略
+     * - 上次未完成的同模型迁移：继续构建
+     */
+    async start(modelId: string): Promise<void> {
+        if (this.job?.modelId === modelId) return;
+        await this.stopJob();
+
+        if (modelId === this.catalog.active.profile.modelId) {
+            await this.discardPending();
+            this.setStatus({ state: "idle", modelId: null, done: 0, total: 0 });
+            return;
+        }
+        if (this.catalog.pending && this.catalog.pending.profile.modelId !== modelId) {
+            await this.discardPending();
+        }
+
+        const job: MigrationJob = { modelId, cancelled: false, completing: false, forwarders: [] };
+        this.job = job;
+        this.setStatus({ state: "preparing", modelId, done: 0, total: 0 });
+
+        try {
+            // 1. 加载新模型并探测维度（以实际输出为准）
+            this.logger.info(`[Migration] 正在加载新模型: ${modelId}`);
+            job.embedder = await this.host.loadEmbedder(modelId);
+            if (job.cancelled) {
+                await job.embedder.unloadModel();
+                return;
+            }
+            const dimensions = (await job.embedder.embed(PROBE_TEXT)).length;
+
+            // 2. 登记（或沿用上次未完成的）待构建索引
+            let descriptor = this.catalog.pending;
+            if (
+                !descriptor ||
+                descriptor.profile.modelId !== modelId ||
+                descriptor.profile.dimensions !== dimensions
+            ) {
+                // TransformersAdapter 始终输出 L2 归一化向量
+                descriptor = await this.catalog.beginMigration({ modelId, dimensions, normalized: true });
+            }
+            job.index = await this.host.openIndex(descriptor);
+            if (job.cancelled) return;
+
+            // 3. 在私有事件总线上启动后台调度器
+            const bus = new EventBus();
+            job.bus = bus;
+            for (const event of FORWARDED_EVENTS) {
+                const forward = (...args: unknown[]) => bus.emit(event, ...args);
+                this.events.on(event, forward);
+                job.forwarders.push([event, forward]);
+            }
+            bus.on(BaizeEvents.INDEX_PROGRESS, (done: unknown, total: unknown) => {
+                this.setStatus({ ...this.status, done: done as number, total: total as number });
+            });
+            bus.on(BaizeEvents.INDEX_COMPLETE, () => this.checkComplete(job));
+
+            job.scheduler = this.host.createScheduler(bus, job.index, job.embedder);
+            job.scheduler.markModelReady();
+
+            this.logger.info(`[Migration] 开始构建新索引: ${modelId} (${dimensions} 维)`);
+            this.setStatus({ state: "building", modelId, done: 0, total: 0 });
+            await job.scheduler.fullSync();
+
+            // 上次已构建完成（或 Vault 为空）时不会再触发 INDEX_COMPLETE
+            this.checkComplete(job);
+        } catch (err) {
+            await this.fail(job, err);
+        }
+    }
+
+    /** 取消进行中的迁移，并删除未完成的新索引 */
+    async cancel(): Promise<void> {
+        const job = await this.stopJob();
+        await this.discardPending(job?.index);
+        this.setStatus({ state: "idle", modelId: null, done: 0, total: 0 });
+    }
+
+    /** 插件卸载时停止后台构建（保留进度，下次启动继续） */
+    async suspend(): Promise<void> {
+        const job = this.job;
+        this.job = null;
+        if (!job) return;
+
+        job.cancelled = true;
+        await this.teardown(job);
+        await job.index?.manifest.save();
+        await job.index?.keywords.save();
+        await job.index?.store.close();
+    }
+
+    /** 立即索引：后台构建跳过可跳过的暂缓条件（移动端手动或仅充电模式） */
+    indexNow(): void {
+        this.job?.scheduler?.indexNow();
+    }
+
+    getStatus(): MigrationStatus {
+        return { ...this.status };
+    }
+
+    /** 新索引构建完成后执行切换 */
+    private async checkComplete(job: MigrationJob): Promise<void> {
+        if (job !== this.job || job.completing || !job.scheduler || !job.index || !job.embedder) return;
+
+        const status = job.scheduler.getStatus();
+        if (status.isBusy || status.queueLength > 0 || status.state === "paused") return;
+
+        job.completing = true;
+        this.setStatus({ ...this.status, state: "swapping" });
+
+        try {
+            await this.teardown(job);
+            await job.index.manifest.save();
+            await job.index.keywords.save();
+
+            // 目录写入即为切换点：此后重启也会使用新索引
+            await this.catalog.commitMigration();
+            this.job = null;
+            await this.host.activate(job.index, job.embedder);
+
+            this.logger.info(`[Migration] 已切换到新模型: ${job.modelId}`);
+            this.setStatus({ state: "idle", modelId: null, done: 0, total: 0 });
+        } catch (err) {
+            await this.fail(job, err);
+        }
+    }
+
+    /** 停止进行中的迁移任务（保留已构建的数据） */
+    private async stopJob(): Promise<MigrationJob | null> {
+        const job = this.job;
+        this.job = null;
+        if (!job) return null;
+
+        job.cancelled = true;
+        await this.teardown(job);
+        this.logger.info(`[Migration] 已停止迁移: ${job.modelId}`);
+        return job;
+    }
+
+    /** 丢弃目录中登记的未完成索引（包括上次会话遗留的），删除其数据 */
+    private async discardPending(opened?: IndexHandle): Promise<void> {
+        const pending = await this.catalog.abortMigration();
+        if (!pending) return;
+
+        try {
+            const index = opened?.descriptor.id === pending.id
+                ? opened
+                : await this.host.openIndex(pending);
+            await index.store.drop();
+            await index.manifest.delete();
+            await index.keywords.delete();
+            this.logger.info(`[Migration] 已删除未完成的索引: ${pending.profile.modelId}`);
+        } catch (err) {
+            this.logger.warn(`[Migration] 清理未完成的索引失败: ${pending.id}`, err);
+        }
+    }
+
+    /** 停止后台调度器并断开事件转发（不删除数据） */
+    private async teardown(job: MigrationJob): Promise<void> {
+        for (const [event, forward] of job.forwarders) {
+            this.events.off(event, forward);
+        }
+        job.forwarders = [];
+        await job.scheduler?.destroy();
+        job.bus?.destroy();
+        if (!job.completing) {
+            await job.embedder?.unloadModel();
+        }
+    }
+
+    /** 迁移失败：停止后台构建，保留目录中的待构建索引以便重试时继续 */
+    private async fail(job: MigrationJob, err: unknown): Promise<void> {
+        if (job.cancelled) return;
+        job.cancelled = true;
+        if (this.job === job) this.job = null;
+
+        const message = err instanceof Error ? err.message : String(err);
+        this.logger.error(`[Migration] 切换到 ${job.modelId} 失败:`, err);
+        try {
+            await this.teardown(job);
+        } catch (teardownErr) {
+            this.logger.warn("[Migration] 停止后台构建失败", teardownErr);
+        }
+        this.setStatus({ ...this.status, state: "error", error: message });
+    }
+
+    private setStatus(status: MigrationStatus): void {
+        this.status = status;
+        this.events.emit(BaizeEvents.MIGRATION_STATE, this.getStatus());
+    }
+}
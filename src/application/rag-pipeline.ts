@@ -6,10 +6,16 @@
  * 2. 构造增强后的 Prompt（上下文注入）
  * 3. 管理对话历史与 Token 限制
  * 4. 驱动 LLM 产生流式回答并解析引用
+ * 
+ * 检索按分块匹配，注入上下文时换成分块所在的完整章节（父级分块），
+ * 使 LLM 能看到匹配分块前后的句子
  */
 import type { SearchService } from "./search-service";
 import type { ILLMProvider, ChatMessage } from "../domain/interfaces/llm-provider";
 import type { SearchResult } from "../domain/models/search-result";
+import type { ParentRecord, VectorSearchFilter } from "../infrastructure/database/schema";
+import { chunkLinktext } from "../domain/models/baize-chunk";
+import { buildPassages } from "./section-context";
 import type { Logger } from "../shared/logger";
 
 /** RAG 配置选项 */
@@ -19,6 +25,10 @@ export interface RAGOptions {
     topK?: number;
     maxHistoryRounds?: number;
     maxContextChars?: number;
+    /** 检索范围（如只在 project = Baize 的笔记中检索） */
+    filter?: VectorSearchFilter;
+    /** 检索时关键词 (BM25) 排名的权重，见 SearchOptions */
+    keywordWeight?: number;
 }
 
 export class RAGPipeline {
@@ -52,12 +62,15 @@ export class RAGPipeline {
             maxHistoryRounds = 5,
             maxContextChars = 8000,
             temperature = 0.7,
-            model
+            model,
+            filter,
+            keywordWeight
         } = options;
 
         try {
             // 1. 检索相关上下文
-            const contextResults = await this.searchService.search(question, { topK, minScore: 0.3 });
+            const contextResults = await this.searchService.search(question, { topK, minScore: 0.3, filter, keywordWeight });
+            const parents = await this.searchService.getParents(contextResults);
 
             // 2. 构造消息队列
             const messages: ChatMessage[] = [];
@@ -71,7 +84,7 @@ export class RAGPipeline {
             // B. 注入上下文
             messages.push({
                 role: "system",
-                content: this.buildContextPrompt(contextResults, maxContextChars)
+                content: this.buildContextPrompt(contextResults, parents, maxContextChars)
             });
 
             // C. 注入历史记录
@@ -131,25 +144,27 @@ export class RAGPipeline {
 4. 回答使用 Markdown 格式。`;
     }
 
-    private buildContextPrompt(results: SearchResult[], limit: number): string {
+    /** 构造参考文本：有父级分块时注入所在章节，否则注入分块本身（见 buildPassages） */
+    private buildContextPrompt(results: SearchResult[], parents: Map<string, ParentRecord>, limit: number): string {
         if (results.length === 0) {
             return "没有找到相关的本地笔记上下文。";
         }
 
         let prompt = "以下是来自用户 Obsidian 库的参考文本片段：\n\n";
         let currentChars = prompt.length;
+        let index = 0;
 
-        results.forEach((res, i) => {
-            const index = i + 1;
-            const source = res.chunk.metadata.title || "未知文件";
-            const path = res.chunk.vectorId.split("::")[0];
-            const content = `--- 参考 [^${index}] 来源: ${source} (${path}) ---\n${res.chunk.text}\n\n`;
+        for (const passage of buildPassages(results, parents, limit)) {
+            const source = passage.chunk.metadata.title || "未知文件";
+            const link = chunkLinktext(passage.chunk);
+            const content = `--- 参考 [^${index + 1}] 来源: ${source} ([[${link}]]) ---\n${passage.text}\n\n`;
 
             if (currentChars + content.length < limit) {
                 prompt += content;
                 currentChars += content.length;
+                index++;
             }
-        });
+        }
 
         return prompt;
     }
@@ -0,0 +1,87 @@
+/**
+ * 白泽 Baize - 检索结果重排序
+ * 
+ * 向量检索（及混合检索）之后的可选阶段：取前 N 个候选交给交叉编码器重新打分排序，其余候选保持原顺序接在后面
+ * 
+ * 重排序只是锦上添花，不能拖慢检索：
+ * - 模型尚未加载完成、查询为空时直接返回原顺序
+ * - 打分超出时间预算或出错时放弃重排序，返回原顺序（已在进行的推理跑完后丢弃）
+ */
+import type { IReranker } from "../domain/interfaces/reranker";
+import type { SearchResult } from "../domain/models/search-result";
+import type { Logger } from "../shared/logger";
+
+export interface RerankOptions {
+    /** 参与重排序的候选数 */
+    topN: number;
+    /** 打分的时间预算（毫秒） */
+    budgetMs: number;
+}
+
+/** 每次推理的候选数（批次之间检查预算并让出主线程） */
+const RERANK_BATCH_SIZE = 8;
+
+export class ResultReranker {
+    private reranker: IReranker;
+    private options: RerankOptions;
+    private logger: Logger;
+
+    constructor(reranker: IReranker, options: RerankOptions, logger: Logger) {
+        this.reranker = reranker;
+        this.options = options;
+        this.logger = logger;
+    }
+
+    /** 重排序需要的候选数（检索时至少取这么多，重排后再截取 Top-K） */
+    candidateCount(topK: number): number {
+        return Math.max(topK, this.options.topN);
+    }
+
+    /**
+     * 按查询与分块原文的相关度重新排序
+     * @returns 重排后的结果；未能重排时为原结果
+     */
+    async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+        if (!query.trim() || results.length < 2 || !this.reranker.isReady()) return results;
+
+        const head = results.slice(0, this.options.topN);
+        const started = performance.now();
+        const deadline = started + this.options.budgetMs;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<null>((resolve) => {
+            timer = setTimeout(() => resolve(null), this.options.budgetMs);
+        });
+
+        try {
+            const scores = await Promise.race([this.scoreAll(query, head, deadline), timeout]);
+            if (!scores) {
+                this.logger.warn(`[Rerank] 超出时间预算 (${this.options.budgetMs}ms)，保留原顺序`);
+                return results;
+            }
+
+            const reranked = head
+                .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+                .sort((a, b) => b.rerankScore - a.rerankScore);
+            this.logger.debug(`[Rerank] ${head.length} 个候选，耗时 ${Math.round(performance.now() - started)}ms`);
+            return [...reranked, ...results.slice(head.length)];
+        } catch (err) {
+            this.logger.warn("[Rerank] 重排序失败，保留原顺序", err);
+            return results;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /** 分批打分，超过截止时间后不再开始新的批次（返回 null） */
+    private async scoreAll(query: string, results: SearchResult[], deadline: number): Promise<number[] | null> {
+        const scores: number[] = [];
+        for (let i = 0; i < results.length; i += RERANK_BATCH_SIZE) {
+            if (performance.now() > deadline) return null;
+            const texts = results.slice(i, i + RERANK_BATCH_SIZE).map(r => r.chunk.text);
+            scores.push(...await this.reranker.score(query, texts));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+        return scores;
+    }
+}
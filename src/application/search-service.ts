@@ -4,19 +4,29 @@
  * 职责：
  * 1. 接收用户的自然语言查询
  * 2. 将查询转换为向量（使用与索引相同的模型）
- * 3. 在向量数据库中执行相似度搜索
- * 4. 过滤结果、排序并处理高亮显示
+ * 3. 在向量数据库中执行相似度搜索，并与 BM25 关键词检索融合（见 HybridSearch）
+ * 4. 可选：用交叉编码器对前 N 个候选重排序（见 ResultReranker）
+ * 5. 过滤结果、排序并处理高亮显示
  */
 import type { ONNXEmbedder } from "../infrastructure/models/onnx-embedder";
 import type { LanceAdapter } from "../infrastructure/database/lance-adapter";
 import type { ModelManager } from "../infrastructure/models/model-manager";
 import type { SearchResult } from "../domain/models/search-result";
+import type { ParentRecord, VectorSearchFilter } from "../infrastructure/database/schema";
+import type { KeywordIndex } from "../infrastructure/storage/keyword-index";
 import type { Logger } from "../shared/logger";
+import { HybridSearch } from "./hybrid-search";
+import { loadParents } from "./section-context";
+import type { ResultReranker } from "./result-reranker";
 
 export interface SearchOptions {
     topK?: number;
     minScore?: number;
     includeHighlights?: boolean;
+    /** 过滤条件（如属性 status = active），在向量库中先过滤再取 Top-K */
+    filter?: VectorSearchFilter;
+    /** 关键词 (BM25) 排名的权重 (0.0 - 1.0)，0 为纯向量检索 */
+    keywordWeight?: number;
 }
 
 export class SearchService {
@@ -24,24 +34,36 @@ export class SearchService {
     private db: LanceAdapter;
     private modelManager: ModelManager;
     private logger: Logger;
+    private hybrid: HybridSearch;
+    private reranker: ResultReranker | undefined;
 
+    /**
+     * @param keywords - 关键词索引，未提供时只做向量检索
+     * @param reranker - 结果重排序，未提供时保持检索顺序
+     */
     constructor(
         embedder: ONNXEmbedder,
         db: LanceAdapter,
         modelManager: ModelManager,
-        logger: Logger
+        logger: Logger,
+        keywords?: KeywordIndex,
+        reranker?: ResultReranker
     ) {
         this.embedder = embedder;
         this.db = db;
         this.modelManager = modelManager;
         this.logger = logger;
+        this.hybrid = new HybridSearch(db, keywords, logger);
+        this.reranker = reranker;
     }
 
     async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
         const {
             topK = 10,
             minScore = 0.3,
-            includeHighlights = true
+            includeHighlights = true,
+            filter,
+            keywordWeight = 0.3
         } = options;
 
         if (!query || query.trim().length === 0) return [];
@@ -58,10 +80,16 @@ export class SearchService {
             this.logger.debug(`[Search] Vectorizing query: "${query}"`);
             const queryVector = await this.embedder.embed(query);
 
-            // 3. 执行搜索并处理结果
-            let results = await this.searchByVector(queryVector, topK, minScore);
+            // 3. 执行混合检索（向量 + 关键词），需要重排序时多取候选
+            const candidates = this.reranker?.candidateCount(topK) ?? topK;
+            let results = await this.hybrid.search(query, queryVector, { topK: candidates, minScore, filter, keywordWeight });
+
+            // 4. 重排序
+            if (this.reranker) {
+                results = (await this.reranker.rerank(query, results)).slice(0, topK);
+            }
 
-            // 4. 高亮处理
+            // 5. 高亮处理
             if (includeHighlights) {
                 results = this.applyHighlights(query, results);
             }
@@ -76,17 +104,42 @@ export class SearchService {
 
     /**
      * 直接通过向量执行搜索
+     * @param query - 向量对应的文本，提供时按其重排序
      */
-    async searchByVector(vector: number[], topK: number = 10, minScore: number = 0.3): Promise<SearchResult[]> {
+    async searchByVector(
+        vector: number[],
+        topK: number = 10,
+        minScore: number = 0.3,
+        filter?: VectorSearchFilter,
+        query?: string
+    ): Promise<SearchResult[]> {
         try {
-            let results = await this.db.search(vector, topK, minScore);
-            return results.sort((a, b) => b.score - a.score);
+            const candidates = query && this.reranker ? this.reranker.candidateCount(topK) : topK;
+            let results = await this.db.search(vector, candidates, minScore, filter);
+            results = results.sort((a, b) => b.score - a.score);
+            if (query && this.reranker) {
+                results = await this.reranker.rerank(query, results);
+            }
+            return results.slice(0, topK);
         } catch (err) {
             this.logger.error(`[Search] Search by vector failed:`, err);
             throw err;
         }
     }
 
+    /**
+     * 读取搜索结果所在的父级分块（完整章节），按父级分块 id 索引
+     * 分块即整个章节时没有父级分块
+     */
+    async getParents(results: SearchResult[]): Promise<Map<string, ParentRecord>> {
+        try {
+            return await loadParents(this.db, results);
+        } catch (err) {
+            this.logger.error(`[Search] Failed to load parent sections:`, err);
+            throw err;
+        }
+    }
+
     /**
      * 为搜索结果添加简单的关键词高亮
      * 注：语义搜索匹配的是意义，这里仅作为 UI 增强，高亮查询中出现的显式词汇
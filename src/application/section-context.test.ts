@@ -0,0 +1,68 @@
+/**
+ * 白泽 Baize - 章节上下文测试
+ */
+import { describe, expect, it } from "vitest";
+import { buildPassages, loadParents } from "./section-context";
+import type { IVectorStore } from "../domain/interfaces/vector-store";
+import type { SearchResult } from "../domain/models/search-result";
+import type { ParentRecord } from "../infrastructure/database/schema";
+
+function result(vectorId: string, text: string, offsetStart: number, parent_id?: string): SearchResult {
+    return { chunk: { vectorId, text, offsetStart, metadata: { parent_id } }, score: 1, distance: 0 } as unknown as SearchResult;
+}
+
+function parent(id: string, text: string, offset_start: number): ParentRecord {
+    return { id, file_path: "a.md", text, metadata: { offset_start }, updated_at: "" } as unknown as ParentRecord;
+}
+
+describe("buildPassages", () => {
+    it("注入分块所在的章节，同一章节只注入一次，没有父级分块时注入分块本身", () => {
+        const results = [
+            result("a.md::1", "第二段。", 104, "a.md::p0"),
+            result("b.md::0", "独立分块。", 0),
+            result("a.md::0", "第一段。", 100, "a.md::p0"),
+        ];
+        const parents = new Map([["a.md::p0", parent("a.md::p0", "标题\n第一段。第二段。", 97)]]);
+
+        expect(buildPassages(results, parents, 8000).map(p => [p.chunk.vectorId, p.text])).toEqual([
+            ["a.md::1", "标题\n第一段。第二段。"],
+            ["b.md::0", "独立分块。"],
+        ]);
+    });
+
+    it("章节超过每条的字符预算时截取以分块为中心的片段", () => {
+        const section = "a".repeat(50) + "MATCH" + "b".repeat(50);
+        const results = [result("a.md::0", "MATCH", 1050, "a.md::p0"), result("b.md::0", "x", 0)];
+        const parents = new Map([["a.md::p0", parent("a.md::p0", section, 1000)]]);
+
+        const [passage] = buildPassages(results, parents, 30);
+        expect(passage.text).toBe("a".repeat(5) + "MATCH" + "b".repeat(5));
+    });
+
+    it("父级分块缺失时退回分块本身", () => {
+        const passages = buildPassages([result("a.md::0", "原文", 0, "a.md::p9")], new Map(), 8000);
+        expect(passages.map(p => p.text)).toEqual(["原文"]);
+    });
+});
+
+describe("loadParents", () => {
+    it("只读取一次去重后的父级分块 id", async () => {
+        const requested: string[][] = [];
+        const store = {
+            getParents: async (ids: string[]) => {
+                requested.push(ids);
+                return ids.map(id => parent(id, id, 0));
+            },
+        } as unknown as IVectorStore;
+
+        const parents = await loadParents(store, [
+            result("a.md::0", "", 0, "a.md::p0"),
+            result("a.md::1", "", 0, "a.md::p0"),
+            result("b.md::0", "", 0),
+        ]);
+        expect(requested).toEqual([["a.md::p0"]]);
+        expect([...parents.keys()]).toEqual(["a.md::p0"]);
+        expect(await loadParents(store, [result("b.md::0", "", 0)])).toEqual(new Map());
+        expect(requested).toHaveLength(1);
+    });
+});
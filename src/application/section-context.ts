@@ -0,0 +1,65 @@
+/**
+ * 白泽 Baize - 章节上下文
+ * 
+ * 检索按分块匹配，交给对话的参考文本换成分块所在的完整章节（父级分块），
+ * 使回答能看到匹配分块前后的句子：
+ * 1. 同一章节的多个分块只注入一次，排在其中最靠前的分块的位置
+ * 2. 每条参考文本最多占上下文长度的 1/N，章节过长时截取以分块为中心的片段
+ * 3. 分块即整个章节（没有父级分块）时使用分块本身
+ */
+import type { IVectorStore } from "../domain/interfaces/vector-store";
+import type { SearchResult } from "../domain/models/search-result";
+import type { BaizeChunk } from "../domain/models/baize-chunk";
+import type { ParentRecord } from "../infrastructure/database/schema";
+
+/** 一条参考文本 */
+export interface ContextPassage {
+    /** 匹配的分块（用于引用与跳转） */
+    chunk: BaizeChunk;
+    /** 注入的文本：章节或章节片段，没有父级分块时为分块原文 */
+    text: string;
+}
+
+/** 读取搜索结果所在的父级分块，按父级分块 id 索引 */
+export async function loadParents(store: IVectorStore, results: SearchResult[]): Promise<Map<string, ParentRecord>> {
+    const ids = [...new Set(results.map(r => r.chunk.metadata.parent_id).filter((id): id is string => !!id))];
+    if (ids.length === 0) return new Map();
+
+    const parents = await store.getParents(ids);
+    return new Map(parents.map(p => [p.id, p]));
+}
+
+/**
+ * 按检索顺序构造参考文本（同一章节只保留一条）
+ * @param limit - 上下文的总字符数，每条参考文本不超过 limit / 结果数
+ */
+export function buildPassages(results: SearchResult[], parents: Map<string, ParentRecord>, limit: number): ContextPassage[] {
+    if (results.length === 0) return [];
+
+    const budget = Math.floor(limit / results.length);
+    const included = new Set<string>();
+    const passages: ContextPassage[] = [];
+
+    for (const { chunk } of results) {
+        const parentId = chunk.metadata.parent_id;
+        const parent = parentId ? parents.get(parentId) : undefined;
+        const key = parent?.id ?? chunk.vectorId;
+        if (included.has(key)) continue;
+
+        included.add(key);
+        passages.push({ chunk, text: parent ? excerpt(chunk, parent, budget) : chunk.text });
+    }
+    return passages;
+}
+
+/** 章节中以分块为中心、不超过 budget 个字符的片段（章节不超过 budget 时为整个章节） */
+function excerpt(chunk: BaizeChunk, parent: ParentRecord, budget: number): string {
+    const text = parent.text;
+    if (text.length <= budget) return text;
+    if (chunk.text.length >= budget) return chunk.text;
+
+    const chunkStart = Math.min(text.length, Math.max(0, chunk.offsetStart - (parent.metadata.offset_start ?? 0)));
+    const margin = Math.floor((budget - chunk.text.length) / 2);
+    const end = Math.min(text.length, Math.max(0, chunkStart - margin) + budget);
+    return text.slice(Math.max(0, end - budget), end);
+}
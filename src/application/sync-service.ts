@@ -4,25 +4,68 @@
  * 职责：
  * 1. 注册 Obsidian Vault 生命周期事件监听
  * 2. 对高频修改进行防抖处理（如打字过程中的自动保存）
- * 3. 过滤非 Markdown 文件及排除目录
+ * 3. 过滤不支持的文件类型及匹配排除规则的路径
  * 4. 通过 EventBus 发射标准化的文件变更事件
+ * 5. 检测同步风暴（Obsidian Sync、git pull 短时间内改动大量文件），
+ *    期间不再逐个发射事件，而是合并为一次 FILE_BATCH 批量提交
  */
 import { App, TFile, TAbstractFile } from "obsidian";
 import { EventBus, BaizeEvents } from "../shared/event-bus";
 import type { Logger } from "../shared/logger";
+import type { PathFilter } from "../domain/filters/path-filter";
+import type { ExtractorRegistry } from "../infrastructure/extractors/extractor-registry";
+
+/** 批量变更（FILE_BATCH 事件负载） */
+export interface FileChangeBatch {
+    /** 新建或修改的文件 */
+    changed: string[];
+    /** 删除的文件 */
+    deleted: string[];
+    /** 重命名：[原路径, 新路径]（连续重命名已合并） */
+    renamed: [string, string][];
+}
+
+/** 单个文件的修改防抖时长（毫秒） */
+const DEBOUNCE_MS = 500;
+
+/** 统计窗口（毫秒）内的文件事件数达到阈值即进入批量模式 */
+const BURST_WINDOW_MS = 2000;
+const BURST_THRESHOLD = 50;
+
+/** 批量模式下静默该时长（毫秒）后提交 */
+const BURST_SETTLE_MS = 3000;
+
+/** 批量模式持续超过该时长（毫秒）时先提交已收集的变更 */
+const BURST_MAX_MS = 30_000;
+
+/** 批量模式下正在收集的变更 */
+interface PendingBatch {
+    startedAt: number;
+    changed: Set<string>;
+    deleted: Set<string>;
+    /** 新路径 → 原路径 */
+    renamed: Map<string, string>;
+}
 
 export class SyncService {
     private app: App;
     private events: EventBus;
     private logger: Logger;
     private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
-    private excludePaths: string[] = [];
+    private filter: PathFilter;
+    private extractors: ExtractorRegistry;
+
+    /** 统计窗口内的事件时间戳 */
+    private recentEvents: number[] = [];
+    private burst: PendingBatch | null = null;
+    private burstTimer: ReturnType<typeof setTimeout> | null = null;
 
-    constructor(app: App, events: EventBus, logger: Logger, excludePaths: string[] = []) {
+    constructor(app: App, events: EventBus, logger: Logger, filter: PathFilter, extractors: ExtractorRegistry) {
         this.app = app;
         this.events = events;
         this.logger = logger;
-        this.excludePaths = excludePaths;
+        this.filter = filter;
+        this.extractors = extractors;
     }
 
     /** 注册 Vault 监听器 */
@@ -40,14 +83,14 @@ export class SyncService {
         this.logger.info("SyncService: Vault listeners registered.");
     }
 
-    /** 设置排除路径 */
-    setExcludePaths(paths: string[]) {
-        this.excludePaths = paths;
-    }
-
     private handleFileEvent(file: TAbstractFile, type: "changed" | "deleted") {
-        if (!(file instanceof TFile) || file.extension !== "md") return;
-        if (this.isExcluded(file.path)) return;
+        if (!(file instanceof TFile) || this.isExcluded(file.path)) return;
+
+        if (this.detectBurst()) {
+            if (type === "deleted") this.batchDeleted(file.path);
+            else this.batchChanged(file.path);
+            return;
+        }
 
         if (type === "deleted") {
             this.events.emit(BaizeEvents.FILE_DELETED, file.path);
@@ -62,21 +105,135 @@ export class SyncService {
         const timer = setTimeout(() => {
             this.debounceTimers.delete(file.path);
             this.events.emit(BaizeEvents.FILE_CHANGED, file.path);
-        }, 500);
+        }, DEBOUNCE_MS);
 
         this.debounceTimers.set(file.path, timer);
     }
 
     private handleRenameEvent(file: TAbstractFile, oldPath: string) {
-        if (!(file instanceof TFile) || file.extension !== "md") return;
-        if (this.isExcluded(file.path)) return;
+        if (!(file instanceof TFile)) return;
+
+        const wasExcluded = this.isExcluded(oldPath);
+        const isExcluded = this.isExcluded(file.path);
+        if (wasExcluded && isExcluded) return;
+
+        // 移入排除目录或改为不支持的扩展名：视为删除；从排除目录移出：视为新建
+        if (this.detectBurst()) {
+            if (isExcluded) this.batchDeleted(oldPath);
+            else if (wasExcluded) this.batchChanged(file.path);
+            else this.batchRenamed(oldPath, file.path);
+        } else if (isExcluded) {
+            this.events.emit(BaizeEvents.FILE_DELETED, oldPath);
+        } else if (wasExcluded) {
+            this.events.emit(BaizeEvents.FILE_CHANGED, file.path);
+        } else {
+            this.events.emit(BaizeEvents.FILE_RENAMED, oldPath, file.path);
+        }
+    }
+
+    /**
+     * 记录一次文件事件，判断是否处于批量模式
+     * 刚进入批量模式时，将仍在防抖中的修改一并转入批量
+     */
+    private detectBurst(): boolean {
+        const now = Date.now();
+        this.recentEvents.push(now);
+        while (this.recentEvents.length > 0 && this.recentEvents[0] < now - BURST_WINDOW_MS) {
+            this.recentEvents.shift();
+        }
+
+        if (!this.burst && this.recentEvents.length >= BURST_THRESHOLD) {
+            this.burst = this.createBatch(now);
+            for (const [path, timer] of this.debounceTimers) {
+                clearTimeout(timer);
+                this.burst.changed.add(path);
+            }
+            this.debounceTimers.clear();
+            this.logger.info("SyncService: 检测到批量文件变更，合并处理...");
+        }
+
+        if (!this.burst) return false;
+
+        if (this.burstTimer) clearTimeout(this.burstTimer);
+        if (now - this.burst.startedAt > BURST_MAX_MS) {
+            this.flushBurst(true);
+        }
+        this.burstTimer = setTimeout(() => this.flushBurst(false), BURST_SETTLE_MS);
+        return true;
+    }
+
+    private batchChanged(path: string) {
+        const batch = this.burst!;
+        batch.deleted.delete(path);
+        batch.changed.add(path);
+    }
+
+    private batchDeleted(path: string) {
+        const batch = this.burst!;
+        batch.changed.delete(path);
+
+        // 本批中重命名过的文件被删除：删除的是原路径上的索引
+        const original = batch.renamed.get(path);
+        if (original !== undefined) {
+            batch.renamed.delete(path);
+            batch.deleted.add(original);
+        } else {
+            batch.deleted.add(path);
+        }
+    }
+
+    private batchRenamed(oldPath: string, newPath: string) {
+        const batch = this.burst!;
+
+        // 连续重命名（a → b → c）合并为 a → c
+        const original = batch.renamed.get(oldPath) ?? oldPath;
+        batch.renamed.delete(oldPath);
+        if (original !== newPath) {
+            batch.renamed.set(newPath, original);
+        }
+
+        if (batch.changed.delete(oldPath)) {
+            batch.changed.add(newPath);
+        }
+        batch.deleted.delete(newPath);
+    }
+
+    /**
+     * 提交收集到的批量变更
+     * @param continuing - 风暴仍在持续：提交后继续收集
+     */
+    private flushBurst(continuing: boolean) {
+        const batch = this.burst;
+        if (!batch) return;
+
+        if (continuing) {
+            this.burst = this.createBatch(Date.now());
+        } else {
+            this.burst = null;
+            this.burstTimer = null;
+            this.recentEvents = [];
+        }
+
+        const payload: FileChangeBatch = {
+            changed: [...batch.changed],
+            deleted: [...batch.deleted],
+            renamed: [...batch.renamed].map(([newPath, oldPath]) => [oldPath, newPath]),
+        };
+        this.logger.info(
+            `SyncService: 批量变更 ${payload.changed.length} 个修改, ` +
+            `${payload.deleted.length} 个删除, ${payload.renamed.length} 个重命名`
+        );
+        this.events.emit(BaizeEvents.FILE_BATCH, payload);
+    }
 
-        this.events.emit(BaizeEvents.FILE_RENAMED, oldPath, file.path);
+    private createBatch(startedAt: number): PendingBatch {
+        return { startedAt, changed: new Set(), deleted: new Set(), renamed: new Map() };
     }
 
-    /** 检查路径是否被过滤 */
+    /** 检查路径是否为不支持的文件类型或匹配排除规则 */
     private isExcluded(path: string): boolean {
-        // 简单的前缀检查，后续可以支持通配符
-        return this.excludePaths.some(ex => path.startsWith(ex));
+        const name = path.slice(path.lastIndexOf("/") + 1);
+        const extension = name.includes(".") ? name.slice(name.lastIndexOf(".") + 1) : "";
+        return !this.extractors.supports(extension) || this.filter.isPathExcluded(path);
     }
 }
@@ -0,0 +1,145 @@
+/**
+ * 白泽 Baize - 块引用 ID
+ * 
+ * Obsidian 的块 ID（^abc123）在笔记编辑后仍指向同一个块，
+ * 分块记录与其重叠的块的 ID，搜索结果与对话引用通过 `笔记#^块ID` 跳转，不受行号漂移影响
+ * 
+ * 开启自动分配时，为不含块 ID 的分块在其第一个块上写入新的块 ID：
+ * - 段落追加在末行行尾，列表追加在第一个列表项行尾
+ * - 表格、引用、Callout、代码、公式单独一行写在块之后（前后各空一行）
+ */
+import type { BaizeChunk } from "../models/baize-chunk";
+import type { MarkdownBlock, MarkdownBlockType } from "./splitters/markdown-structure";
+import { parseBlocks } from "./splitters/markdown-structure";
+
+/** 行尾的块 ID（位于行首或前面有空白） */
+const BLOCK_ID_PATTERN = /(?:^|[ \t])\^([A-Za-z0-9-]+)[ \t]*$/gm;
+
+/** 单独一行的块 ID（引用其上方的块） */
+const STANDALONE_ID = /^\^[A-Za-z0-9-]+[ \t]*$/;
+
+/** 块 ID 写在行尾的块类型（其余类型单独一行写在块之后） */
+const INLINE_TYPES: ReadonlySet<MarkdownBlockType> = new Set<MarkdownBlockType>(["paragraph", "list"]);
+
+/** 自动分配的块 ID 长度（与 Obsidian 生成的一致） */
+const BLOCK_ID_LENGTH = 6;
+
+/** 一处待写入的块 ID */
+export interface BlockIdInsertion {
+    /** 插入位置 */
+    offset: number;
+    /** 插入的文本（含分隔的空格或空行） */
+    text: string;
+    id: string;
+}
+
+/**
+ * 与 [start, end) 重叠的块的 ID（按出现顺序去重）
+ * 块 ID 可能在范围之外，如分块从长段落中间开始、段落末尾的块 ID 不在分块内
+ */
+export function blockIdsIn(content: string, blocks: MarkdownBlock[], start: number, end: number): string[] {
+    const ids: string[] = [];
+    blocks.forEach((block, index) => {
+        if (block.end <= start || block.start >= end) return;
+        for (const id of idsOf(content, blocks, index)) {
+            if (!ids.includes(id)) ids.push(id);
+        }
+    });
+    return ids;
+}
+
+/** 去除行尾的块 ID（块 ID 对语义没有贡献，去除后分配块 ID 不会导致重新向量化） */
+export function stripBlockIds(text: string): string {
+    return text.replace(BLOCK_ID_PATTERN, "");
+}
+
+/**
+ * 为不含块 ID 的分块规划块 ID
+ * 选取分块内第一个起点落在分块中的非标题块；该块已有块 ID（如表格后单独一行的 ID）时跳过
+ * @param content - 分块偏移量对应的原文
+ */
+export function planBlockIds(
+    content: string,
+    chunks: Pick<BaizeChunk, "offsetStart" | "offsetEnd" | "metadata">[]
+): BlockIdInsertion[] {
+    const blocks = parseBlocks(content);
+    const used = new Set(blockIdsIn(content, blocks, 0, content.length).map(id => id.toLowerCase()));
+    const planned = new Set<MarkdownBlock>();
+    const insertions: BlockIdInsertion[] = [];
+
+    for (const chunk of chunks) {
+        if (chunk.metadata.block_ids?.length) continue;
+
+        const index = blocks.findIndex((b, i) =>
+            b.end > chunk.offsetStart && b.start < chunk.offsetEnd && isAnchorable(content, blocks, i)
+        );
+        const block = blocks[index];
+        if (!block || planned.has(block) || idsOf(content, blocks, index).length > 0) continue;
+
+        const id = newBlockId(used);
+        planned.add(block);
+        insertions.push(insertionFor(content, block, id));
+    }
+    return insertions;
+}
+
+/** 按插入位置从后往前写入块 ID */
+export function applyBlockIds(content: string, insertions: BlockIdInsertion[]): string {
+    let result = content;
+    for (const insertion of [...insertions].sort((a, b) => b.offset - a.offset)) {
+        result = result.slice(0, insertion.offset) + insertion.text + result.slice(insertion.offset);
+    }
+    return result;
+}
+
+/**
+ * 块的 ID：段落与列表为行尾的块 ID，其他块为紧随其后单独一行的块 ID
+ * 代码与公式内部的 ^ 不是块引用
+ */
+function idsOf(content: string, blocks: MarkdownBlock[], index: number): string[] {
+    const block = blocks[index];
+    if (INLINE_TYPES.has(block.type)) {
+        if (isStandaloneId(content, block)) return [];
+        return [...content.slice(block.start, block.end).matchAll(BLOCK_ID_PATTERN)].map(m => m[1]);
+    }
+    if (block.type === "heading") return [];
+
+    const next = blocks[index + 1];
+    if (!next || !isStandaloneId(content, next)) return [];
+    return [content.slice(next.start, next.end).trim().slice(1)];
+}
+
+/** 可以写入块 ID 的块（标题与单独一行的块 ID 除外） */
+function isAnchorable(content: string, blocks: MarkdownBlock[], index: number): boolean {
+    const block = blocks[index];
+    return block.type !== "heading" && !isStandaloneId(content, block);
+}
+
+function isStandaloneId(content: string, block: MarkdownBlock): boolean {
+    return block.type === "paragraph" && STANDALONE_ID.test(content.slice(block.start, block.end));
+}
+
+function insertionFor(content: string, block: MarkdownBlock, id: string): BlockIdInsertion {
+    if (block.type === "paragraph") {
+        return { offset: block.end, text: ` ^${id}`, id };
+    }
+    if (block.type === "list") {
+        const lineEnd = content.indexOf("\n", block.start);
+        const offset = lineEnd < 0 || lineEnd > block.end ? block.end : lineEnd;
+        return { offset: content[offset - 1] === "\r" ? offset - 1 : offset, text: ` ^${id}`, id };
+    }
+    // 块之后紧跟非空行时补一个空行，避免块 ID 与下一段连成一段
+    const followed = /^\r?\n[ \t]*\S/.test(content.slice(block.end));
+    return { offset: block.end, text: `\n\n^${id}${followed ? "\n" : ""}`, id };
+}
+
+function newBlockId(used: Set<string>): string {
+    let id = "";
+    while (!id || used.has(id)) {
+        id = "";
+        while (id.length < BLOCK_ID_LENGTH) id += Math.random().toString(36).slice(2);
+        id = id.slice(0, BLOCK_ID_LENGTH);
+    }
+    used.add(id);
+    return id;
+}
@@ -0,0 +1,75 @@
+/**
+ * 白泽 Baize - 分块上下文标题
+ * 
+ * 分块原文往往缺少所在位置的信息（如“使用 npm 安装”不知道属于哪个项目的哪一节），
+ * 向量化时在分块前加上笔记标题、标题路径、指定属性与标签组成的上下文标题：
+ * 
+ *     Project X > Setup
+ *     status: active
+ *     tags: project, dev
+ * 
+ * 上下文标题记录在分块元数据中，搜索结果只显示分块原文
+ */
+import type { ChunkMetadata } from "../../infrastructure/database/schema";
+import { stripBlockIds } from "./block-ids";
+
+/** 分块的上下文信息（由调用方从文件元数据中提取） */
+export interface ChunkContext {
+    /** 上级标题（如 PDF 大纲、Canvas 分组），排在分块自身的标题路径之前 */
+    headings?: string[];
+
+    /** 写入上下文标题的属性：[属性名, 值] */
+    properties?: [string, string][];
+
+    /** 文件标签（不含 #） */
+    tags?: string[];
+}
+
+/** Wiki 链接 [[目标|别名]]，上下文标题中只保留显示文本 */
+const WIKILINK_PATTERN = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+/**
+ * 生成上下文标题
+ * @param headings - 标题层级路径，如 ["# 章节", "# 小节"]
+ */
+export function buildContextHeader(title: string, headings: string[], context: ChunkContext): string {
+    const breadcrumb = title ? [title] : [];
+    for (const heading of headings) {
+        const text = heading.replace(/^#+\s*/, "").trim();
+        // 一级标题通常与笔记标题相同
+        if (text && text !== breadcrumb[breadcrumb.length - 1]) breadcrumb.push(text);
+    }
+
+    const lines = [breadcrumb.join(" > ")];
+    for (const [name, value] of context.properties ?? []) {
+        lines.push(`${name}: ${value}`);
+    }
+    if (context.tags?.length) {
+        lines.push(`tags: ${context.tags.join(", ")}`);
+    }
+    return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * 从笔记属性（frontmatter 与 Dataview 行内字段）中取出指定属性，转为上下文标题中的文本
+ * 只保留字符串、数字、布尔值及其数组，缺失或为空的属性跳过
+ */
+export function pickProperties(properties: Record<string, unknown> | undefined, names: string[]): [string, string][] {
+    if (!properties) return [];
+
+    const picked: [string, string][] = [];
+    for (const name of names) {
+        const values = ([] as unknown[]).concat(properties[name] ?? [])
+            .filter(v => typeof v === "string" || typeof v === "number" || typeof v === "boolean")
+            .map(v => String(v).replace(WIKILINK_PATTERN, (_, target: string, alias?: string) => alias ?? target).trim())
+            .filter(Boolean);
+        if (values.length > 0) picked.push([name, values.join(", ")]);
+    }
+    return picked;
+}
+
+/** 向量化使用的文本：上下文标题 + 去除块 ID 的分块原文 */
+export function embeddingText(text: string, metadata: Pick<ChunkMetadata, "context_header">): string {
+    const body = stripBlockIds(text);
+    return metadata.context_header ? `${metadata.context_header}\n\n${body}` : body;
+}
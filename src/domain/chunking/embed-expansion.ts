@@ -0,0 +1,81 @@
+/**
+ * 白泽 Baize - 嵌入展开
+ * 
+ * 将段落中的 ![[...]] 替换为被嵌入的正文，并记录替换位置，
+ * 使分块在展开后的文本上进行，偏移量仍能映射回宿主文件
+ */
+import type { EmbedSpan } from "../interfaces/document-extractor";
+
+/** 嵌入展开的最大嵌套深度 */
+export const MAX_EMBED_DEPTH = 3;
+
+/** 展开后文本中的一段嵌入内容 */
+export interface EmbedSegment {
+    /** 在展开后文本中的起止偏移量 */
+    start: number;
+    end: number;
+
+    /** 原嵌入语法在宿主文本中的起止偏移量 */
+    hostStart: number;
+    hostEnd: number;
+
+    source: string;
+}
+
+/** 展开结果 */
+export interface ExpandedText {
+    text: string;
+    /** 按偏移量升序排列 */
+    segments: EmbedSegment[];
+}
+
+/** 用嵌入正文替换嵌入语法（跳过越界或相互重叠的嵌入） */
+export function expandEmbeds(text: string, embeds: EmbedSpan[]): ExpandedText {
+    const sorted = [...embeds].sort((a, b) => a.start - b.start);
+    const segments: EmbedSegment[] = [];
+    let result = "";
+    let cursor = 0;
+
+    for (const embed of sorted) {
+        if (embed.start < cursor || embed.end > text.length || embed.end <= embed.start) continue;
+
+        result += text.slice(cursor, embed.start);
+        segments.push({
+            start: result.length,
+            end: result.length + embed.text.length,
+            hostStart: embed.start,
+            hostEnd: embed.end,
+            source: embed.source,
+        });
+        result += embed.text;
+        cursor = embed.end;
+    }
+
+    result += text.slice(cursor);
+    return { text: result, segments };
+}
+
+/**
+ * 将展开后文本中的偏移量映射回宿主文本
+ * 落在嵌入内容中的位置映射到嵌入语法的起点（bias = "start"）或终点（bias = "end"）
+ */
+export function toHostOffset(offset: number, segments: EmbedSegment[], bias: "start" | "end"): number {
+    let delta = 0;
+    for (const seg of segments) {
+        if (offset < seg.start) break;
+        if (offset < seg.end) return bias === "start" ? seg.hostStart : seg.hostEnd;
+        delta += (seg.end - seg.start) - (seg.hostEnd - seg.hostStart);
+    }
+    return offset - delta;
+}
+
+/** 与展开后文本中 [start, end) 区间重叠的嵌入来源（去重、保持顺序） */
+export function embedSourcesIn(start: number, end: number, segments: EmbedSegment[]): string[] {
+    const sources: string[] = [];
+    for (const seg of segments) {
+        if (seg.start < end && seg.end > start && !sources.includes(seg.source)) {
+            sources.push(seg.source);
+        }
+    }
+    return sources;
+}
@@ -3,20 +3,53 @@
  * 
  * 核心逻辑：
  * 1. 过滤 YAML Frontmatter
- * 2. 识别代码块，确保代码块不被切断
- * 3. 识别标题层级，作为自然的语义边界
- * 4. 在满足长度限制的前提下，优先在标题、段落、句子边界处切分
- * 5. 保留上下文重叠度 (Overlap)
+ * 2. 将正文解析为块级节点，按配置的分块策略切分（见 splitters/），分块大小以 Token 计
+ * 3. 按块结构切分超出模型最大输入长度的分块，避免被模型截断丢失内容
+ * 4. 计算分块在源文件中的偏移量与行号，记录标题路径、块类型、块 ID 与分块策略
+ * 5. 关联父级分块：分块所在的完整标题章节（到下一个任意级别的标题为止），
+ *    检索时按分块匹配、按章节提供上下文（small-to-big）；分块即整个章节时不关联
+ * 
+ * 开启 contextHeaders 时，为每个分块生成上下文标题（见 context-header），
+ * 上下文标题与分块一起向量化，切分时为其预留 Token
+ * 
+ * 开启 resolveEmbeds 时，先将嵌入 ![[...]] 展开为被嵌入的正文再分块，
+ * 分块的偏移量与行号仍对应宿主文件中的嵌入语法位置
  */
-import type { BaizeChunk } from "../models/baize-chunk";
+import type { BaizeChunk, ParentChunk } from "../models/baize-chunk";
+import type { EmbedSpan } from "../interfaces/document-extractor";
+import type { ITokenCounter } from "../interfaces/token-counter";
 import type { ChunkingOptions } from "./strategies";
-import { DEFAULT_CHUNKING_OPTIONS } from "./strategies";
+import { ChunkingStrategy, DEFAULT_CHUNKING_OPTIONS, chunkerStamp } from "./strategies";
+import { embedSourcesIn, expandEmbeds, toHostOffset } from "./embed-expansion";
+import { EstimatedTokenCounter, fitTokens } from "./token-budget";
+import type { ChunkContext } from "./context-header";
+import { buildContextHeader, embeddingText } from "./context-header";
+import { blockIdsIn } from "./block-ids";
+import type { MarkdownStructure } from "./splitters/markdown-structure";
+import { analyzeStructure, blockTypeOf, headingPathAt } from "./splitters/markdown-structure";
+import { splitToLimit } from "./splitters/block-splitter";
+import type { ChunkSpan, IChunkSplitter } from "./splitters/chunk-splitter";
+import { FixedLengthSplitter } from "./splitters/fixed-length-splitter";
+import { HeadingSplitter } from "./splitters/heading-splitter";
+import { ParagraphSplitter } from "./splitters/paragraph-splitter";
+import { HybridSplitter } from "./splitters/hybrid-splitter";
 
 export class MarkdownChunker {
     private options: ChunkingOptions;
+    private counter: ITokenCounter;
+    /** 生效的分块大小（不超过模型的最大输入长度） */
+    private chunkSize: number;
+    private splitter: IChunkSplitter;
 
-    constructor(options: Partial<ChunkingOptions> = {}) {
+    /**
+     * @param counter - 模型分词器，未提供时按 EstimatedTokenCounter 估算
+     */
+    constructor(options: Partial<ChunkingOptions> = {}, counter: ITokenCounter = new EstimatedTokenCounter()) {
         this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+        this.counter = counter;
+        // 分块大小不超过模型的最大输入长度
+        this.chunkSize = Math.min(this.options.chunkSize, counter.maxTokens);
+        this.splitter = createSplitter({ ...this.options, chunkSize: this.chunkSize }, counter);
     }
 
     /**
@@ -25,33 +58,152 @@ export class MarkdownChunker {
      * @param text - 原始 Markdown 内容
      * @param filePath - 文件路径（用于生成 vectorId）
      * @param fileTitle - 文件标题
+     * @param embeds - 已解析的嵌入（仅在开启 resolveEmbeds 时展开）
+     * @param context - 上级标题、属性与标签（上级标题写入标题路径，其余仅用于上下文标题）
      * @returns 分块数组
      */
-    chunk(text: string, filePath: string, fileTitle: string): BaizeChunk[] {
+    chunk(text: string, filePath: string, fileTitle: string, embeds?: EmbedSpan[], context: ChunkContext = {}): BaizeChunk[] {
+        if (this.options.resolveEmbeds && embeds?.length) {
+            return this.chunkExpanded(text, filePath, fileTitle, embeds, context);
+        }
+
         // 1. 过滤 YAML Frontmatter
         const { content, offset: bodyOffset, lineOffset } = this.stripFrontmatter(text);
 
-        // 2. 预处理：识别代码块位置，避免在代码块内切分
-        const codeBlocks = this.findCodeBlocks(content);
+        // 2. 解析块结构并按分块策略切分，超出模型最大输入长度的分块按结构切分
+        //    上下文标题与分块一起向量化，其占用的 Token 从最大输入长度中扣除
+        const structure = analyzeStructure(content);
+        const parents = context.headings ?? [];
+        const headerOf = (headings: string[]) => this.contextHeader(fileTitle, [...parents, ...headings], context);
+        const spans = this.splitterFor(structure, headerOf).split(content, structure)
+            .flatMap(span => {
+                const limit = this.counter.maxTokens - this.headerTokens(headerOf(span.headings));
+                return splitToLimit(content, span, structure, this.counter, limit);
+            });
 
-        // 3. 初始切分：按标题层级切分
-        const sections = this.splitByHeadings(content, bodyOffset, lineOffset);
+        // 3. 计算行号并生成分块，关联所在章节
+        const lineStarts = lineStartsOf(content);
+        const parentOf = this.parentFinder(content, structure, lineStarts, parents, bodyOffset, lineOffset);
+        return spans.map((span, index) => {
+            const chunk = this.createChunk(content, span, structure, lineStarts, fileTitle);
+            chunk.index = index;
+            chunk.vectorId = `${filePath}::${index}`;
+            chunk.offsetStart += bodyOffset;
+            chunk.offsetEnd += bodyOffset;
+            chunk.lineStart += lineOffset;
+            chunk.lineEnd += lineOffset;
+            chunk.metadata.headings = [...parents, ...span.headings];
+            const header = headerOf(span.headings);
+            if (header) chunk.metadata.context_header = header;
+            const parent = parentOf(span);
+            if (parent) chunk.parent = parent;
+            return chunk;
+        });
+    }
 
-        const allChunks: BaizeChunk[] = [];
-        let chunkGlobalIndex = 0;
+    /**
+     * 父级分块查找：分块起止所在章节的并集（跨章节的分块只会出现在固定长度等策略中）
+     * 同一章节只生成一个父级分块；分块已包含整个章节时返回 undefined
+     * @param parentHeadings - 上级标题（如 Canvas 分组）
+     * @param bodyOffset - 正文在原文中的偏移量（YAML 头部的长度）
+     * @param lineOffset - 正文之前的行数
+     */
+    private parentFinder(
+        content: string,
+        structure: MarkdownStructure,
+        lineStarts: number[],
+        parentHeadings: string[],
+        bodyOffset: number,
+        lineOffset: number
+    ): (span: ChunkSpan) => ParentChunk | undefined {
+        const bounds = [0, ...structure.headings.map(h => h.offset).filter(o => o > 0), content.length];
+        const sectionAt = (offset: number) => {
+            let i = 0;
+            while (i < bounds.length - 2 && bounds[i + 1] <= offset) i++;
+            return i;
+        };
+        const sections = new Map<string, ParentChunk>();
 
-        // 4. 处理各章节：如果章节过大，则进行细分
-        for (const section of sections) {
-            const sectionChunks = this.refineSection(section, codeBlocks, fileTitle);
+        return span => {
+            let start = bounds[sectionAt(span.start)];
+            let end = bounds[sectionAt(Math.max(span.start, span.end - 1)) + 1];
+            while (start < end && /\s/.test(content[start])) start++;
+            while (end > start && /\s/.test(content[end - 1])) end--;
+            if (span.start <= start && span.end >= end) return undefined;
 
-            for (const sc of sectionChunks) {
-                sc.index = chunkGlobalIndex++;
-                sc.vectorId = `${filePath}::${sc.index}`;
-                allChunks.push(sc);
+            const key = `${start}:${end}`;
+            let parent = sections.get(key);
+            if (!parent) {
+                parent = {
+                    id: "", // 外部统一编号
+                    text: content.slice(start, end),
+                    offsetStart: start + bodyOffset,
+                    offsetEnd: end + bodyOffset,
+                    lineStart: lineAt(lineStarts, start) + lineOffset,
+                    lineEnd: lineAt(lineStarts, end - 1) + lineOffset,
+                    headings: [...parentHeadings, ...headingPathAt(structure.headings, start)],
+                };
+                sections.set(key, parent);
             }
-        }
+            return parent;
+        };
+    }
 
-        return allChunks;
+    /**
+     * 文档使用的切分器
+     * 开启上下文标题时，按文档中最长的上下文标题缩小分块大小，避免分块再被按上限切碎
+     */
+    private splitterFor(structure: MarkdownStructure, headerOf: (headings: string[]) => string): IChunkSplitter {
+        if (!this.options.contextHeaders) return this.splitter;
+
+        const paths = [[], ...structure.headings.map(h => headingPathAt(structure.headings, h.offset))];
+        const reserved = Math.max(...paths.map(path => this.headerTokens(headerOf(path))));
+        const chunkSize = Math.min(this.chunkSize, this.counter.maxTokens - reserved);
+        return chunkSize < this.chunkSize ? createSplitter({ ...this.options, chunkSize }, this.counter) : this.splitter;
+    }
+
+    /** 上下文标题（未开启时为空字符串），最多占模型最大输入长度的 1/4 */
+    private contextHeader(fileTitle: string, headings: string[], context: ChunkContext): string {
+        if (!this.options.contextHeaders) return "";
+        const header = buildContextHeader(fileTitle, headings, context);
+        return header.slice(0, fitTokens(this.counter, header, 0, Math.floor(this.counter.maxTokens / 4)));
+    }
+
+    /** 上下文标题及其与原文之间的分隔占用的 Token 数 */
+    private headerTokens(header: string): number {
+        return header ? this.counter.count(embeddingText("", { context_header: header })) - this.counter.count("") : 0;
+    }
+
+    /** 在展开嵌入后的文本上分块，再将偏移量与行号映射回宿主文本 */
+    private chunkExpanded(
+        text: string,
+        filePath: string,
+        fileTitle: string,
+        embeds: EmbedSpan[],
+        context: ChunkContext
+    ): BaizeChunk[] {
+        const expanded = expandEmbeds(text, embeds);
+        const chunks = this.chunk(expanded.text, filePath, fileTitle, undefined, context);
+        if (expanded.segments.length === 0) return chunks;
+
+        const lineStarts = lineStartsOf(text);
+        const toHost = (range: Pick<BaizeChunk, "offsetStart" | "offsetEnd" | "lineStart" | "lineEnd">) => {
+            range.offsetStart = toHostOffset(range.offsetStart, expanded.segments, "start");
+            range.offsetEnd = Math.max(range.offsetStart, toHostOffset(range.offsetEnd, expanded.segments, "end"));
+            range.lineStart = lineAt(lineStarts, range.offsetStart);
+            range.lineEnd = lineAt(lineStarts, Math.max(range.offsetStart, range.offsetEnd - 1));
+        };
+
+        // 父级分块的正文保留展开后的内容，位置同样映射回宿主文本
+        const parents = new Set<ParentChunk>();
+        for (const chunk of chunks) {
+            const sources = embedSourcesIn(chunk.offsetStart, chunk.offsetEnd, expanded.segments);
+            toHost(chunk);
+            if (sources.length > 0) chunk.metadata.embeds = sources;
+            if (chunk.parent) parents.add(chunk.parent);
+        }
+        parents.forEach(toHost);
+        return chunks;
     }
 
     /** 过滤 YAML 头部 */
@@ -69,160 +221,72 @@ export class MarkdownChunker {
         return { content: text, offset: 0, lineOffset: 0 };
     }
 
-    /** 查找代码块范围 [start, end] */
-    private findCodeBlocks(text: string): [number, number][] {
-        const blocks: [number, number][] = [];
-        const regex = /```[\s\S]*?```/g;
-        let match;
-        while ((match = regex.exec(text)) !== null) {
-            blocks.push([match.index, regex.lastIndex]);
-        }
-        return blocks;
-    }
-
-    /** 按标题切分初步章节 */
-    private splitByHeadings(text: string, baseOffset: number, baseLineOffset: number): Section[] {
-        const sections: Section[] = [];
-        const headingRegex = /^(#{1,6})\s+(.+)$/gm;
-
-        let match;
-        let lastIndex = 0;
-        let lastLineCount = 0;
-        let currentHeadings: string[] = [];
-
-        while ((match = headingRegex.exec(text)) !== null) {
-            // 保存之前的章节
-            if (match.index > lastIndex) {
-                const sectionText = text.slice(lastIndex, match.index);
-                if (sectionText.trim()) {
-                    sections.push({
-                        text: sectionText,
-                        offsetStart: baseOffset + lastIndex,
-                        lineStart: baseLineOffset + lastLineCount + 1,
-                        headings: [...currentHeadings]
-                    });
-                }
-            }
-
-            // 更新当前标题层级
-            const level = match[1].length;
-            const title = match[2].trim();
-            currentHeadings = currentHeadings.slice(0, level - 1);
-            currentHeadings[level - 1] = `# ${title}`;
-
-            lastIndex = match.index;
-            lastLineCount = text.slice(0, lastIndex).split("\n").length - 1;
-        }
-
-        // 最后一个章节
-        const remainingText = text.slice(lastIndex);
-        if (remainingText.trim()) {
-            sections.push({
-                text: remainingText,
-                offsetStart: baseOffset + lastIndex,
-                lineStart: baseLineOffset + lastLineCount + 1,
-                headings: [...currentHeadings]
-            });
-        }
-
-        return sections;
-    }
-
-    /** 细化过大的章节 */
-    private refineSection(section: Section, codeBlocks: [number, number][], fileTitle: string): BaizeChunk[] {
-        if (section.text.length <= this.options.chunkSize) {
-            return [this.createChunk(section, section.text, 0, fileTitle)];
-        }
-
-        const chunks: BaizeChunk[] = [];
-        let cursor = 0;
-        const text = section.text;
-        const overlap = Math.floor(this.options.chunkSize * this.options.overlapThreshold);
-
-        while (cursor < text.length) {
-            let end = cursor + this.options.chunkSize;
-
-            if (end < text.length) {
-                // 尝试在换行符或句子边界切分
-                const lookbackRange = text.slice(Math.max(cursor, end - 100), end);
-                const lastNewline = lookbackRange.lastIndexOf("\n");
-                const lastSentence = Math.max(
-                    lookbackRange.lastIndexOf("。"),
-                    lookbackRange.lastIndexOf("."),
-                    lookbackRange.lastIndexOf("?"),
-                    lookbackRange.lastIndexOf("!")
-                );
-
-                if (lastNewline > 50) {
-                    end = Math.max(cursor, end - 100) + lastNewline + 1;
-                } else if (lastSentence > 50) {
-                    end = Math.max(cursor, end - 100) + lastSentence + 1;
-                }
-
-                // 检查是否切断了代码块
-                const sectionGlobalStart = section.offsetStart + cursor;
-                const sectionGlobalEnd = section.offsetStart + end;
-                for (const [bStart, bEnd] of codeBlocks) {
-                    if (sectionGlobalEnd > bStart && sectionGlobalEnd < bEnd) {
-                        // 如果切断了代码块，直接延申到代码块结束（如果不太长）
-                        // 或者在代码块开始前切断
-                        if (bEnd - sectionGlobalStart <= this.options.chunkSize * 1.5) {
-                            end = bEnd - section.offsetStart;
-                        } else {
-                            end = bStart - section.offsetStart;
-                        }
-                        break;
-                    }
-                }
-            }
-
-            const chunkText = text.slice(cursor, end);
-            if (chunkText.trim().length >= this.options.minChunkSize || cursor === 0) {
-                chunks.push(this.createChunk(section, chunkText, cursor, fileTitle));
-            }
-
-            // 移动游标，考虑重合度
-            const nextCursor = end - overlap;
-            if (nextCursor <= cursor) {
-                cursor = end; // 防止死循环
-            } else {
-                cursor = nextCursor;
-            }
-
-            if (cursor >= text.length - overlap && cursor < text.length) break;
-        }
-
-        return chunks;
-    }
-
-    /** 创建分块模型实例 */
-    private createChunk(section: Section, chunkText: string, relativeOffset: number, fileTitle: string): BaizeChunk {
+    /** 创建分块模型实例（偏移量与行号相对于正文） */
+    private createChunk(
+        content: string,
+        span: ChunkSpan,
+        structure: MarkdownStructure,
+        lineStarts: number[],
+        fileTitle: string
+    ): BaizeChunk {
+        const chunkText = content.slice(span.start, span.end);
+        const lineStart = lineAt(lineStarts, span.start);
         const lineCount = (chunkText.match(/\n/g) || []).length;
-        const precedingText = section.text.slice(0, relativeOffset);
-        const precedingLines = (precedingText.match(/\n/g) || []).length;
+        const blockIds = blockIdsIn(content, structure.blocks, span.start, span.end);
 
         return {
             index: 0, // 外部统编号
-            text: chunkText,
-            offsetStart: section.offsetStart + relativeOffset,
-            offsetEnd: section.offsetStart + relativeOffset + chunkText.length,
-            lineStart: section.lineStart + precedingLines,
-            lineEnd: section.lineStart + precedingLines + lineCount,
+            text: (span.prefix ?? "") + chunkText,
+            offsetStart: span.start,
+            offsetEnd: span.end,
+            lineStart,
+            lineEnd: lineStart + lineCount,
             vectorId: "", // 外部填充
             metadata: {
                 title: fileTitle,
-                headings: section.headings,
+                headings: span.headings,
                 tags: [], // 等待外部提取
                 file_size: 0, // 等待外部填充
                 file_mtime: 0, // 等待外部填充
+                block_type: blockTypeOf(structure.blocks, span.start, span.end),
+                ...(blockIds.length > 0 ? { block_ids: blockIds } : {}),
+                chunker: chunkerStamp(this.options.strategy),
             }
         };
     }
 }
 
-interface Section {
-    text: string;
-    offsetStart: number;
-    lineStart: number;
-    headings: string[];
+/** 按策略创建切分器 */
+function createSplitter(options: ChunkingOptions, counter: ITokenCounter): IChunkSplitter {
+    switch (options.strategy) {
+        case ChunkingStrategy.FIXED_LENGTH:
+            return new FixedLengthSplitter(options, counter);
+        case ChunkingStrategy.HEADING_SPLIT:
+            return new HeadingSplitter(options, counter);
+        case ChunkingStrategy.SEMANTIC_PARAGRAPH:
+            return new ParagraphSplitter(options, counter);
+        default:
+            return new HybridSplitter(options, counter);
+    }
+}
+
+/** 各行起点的偏移量 */
+function lineStartsOf(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === "\n") starts.push(i + 1);
+    }
+    return starts;
+}
+
+/** 偏移量所在的行号 (1-indexed) */
+function lineAt(lineStarts: number[], offset: number): number {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (lineStarts[mid] <= offset) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo + 1;
 }
@@ -0,0 +1,154 @@
+/**
+ * 白泽 Baize - 按块结构切分过大的片段
+ * 
+ * 片段超出 Token 上限时，先在块边界处切分；单个块仍然过大时按其内部结构切分：
+ * - 表格按行切分，后续分块重复表头
+ * - 列表按顶层列表项切分
+ * - Callout、代码、公式按行切分，后续分块重复首行（Callout 标题、围栏、$$）
+ * - 引用按行切分，段落在换行、句末或空白处切分
+ */
+import type { ITokenCounter } from "../../interfaces/token-counter";
+import type { ChunkSpan } from "./chunk-splitter";
+import type { MarkdownBlock, MarkdownStructure } from "./markdown-structure";
+import { findBreak } from "./markdown-structure";
+import { fitTokens } from "../token-budget";
+
+/** 可作为分块起点的位置 */
+interface Unit {
+    start: number;
+    /** 从该位置开始的分块需要重复的上下文（如表头） */
+    prefix?: string;
+    /** 是否为块起点（优先在块起点处切分，尽量保持块完整） */
+    blockStart?: boolean;
+}
+
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+
+/** 将片段切分为不超过 limit 个 Token 的片段 */
+export function splitToLimit(
+    content: string,
+    span: ChunkSpan,
+    structure: MarkdownStructure,
+    counter: ITokenCounter,
+    limit: number
+): ChunkSpan[] {
+    const measure = (start: number, end: number, prefix = "") => counter.count(prefix + content.slice(start, end));
+    if (measure(span.start, span.end, span.prefix) <= limit) return [span];
+
+    const units = unitsIn(content, span.start, span.end, structure.blocks);
+    if (span.prefix && !units[0].prefix) units[0].prefix = span.prefix;
+
+    const spans: ChunkSpan[] = [];
+    let i = 0;
+    while (i < units.length) {
+        const { start, prefix } = units[i];
+        const endOf = (j: number) => units[j]?.start ?? span.end;
+
+        let j = i + 1;
+        while (j < units.length && measure(start, endOf(j + 1), prefix) <= limit) j++;
+        if (j < units.length && !units[j].blockStart) {
+            // 会切断块时退回到最近的块起点，退回后分块不足上限一半时仍在块内切分
+            let k = j - 1;
+            while (k > i && !units[k].blockStart) k--;
+            if (k > i && measure(start, units[k].start, prefix) * 2 >= limit) j = k;
+        }
+        const end = endOf(j);
+
+        if (j === i + 1 && measure(start, end, prefix) > limit) {
+            spans.push(...hardSplit(content, start, end, prefix, span.headings, counter, limit));
+        } else {
+            spans.push({ start, end, headings: span.headings, ...(prefix ? { prefix } : {}) });
+        }
+        i = j;
+    }
+    return spans;
+}
+
+/** [start, end) 范围内可作为分块起点的位置 */
+function unitsIn(content: string, start: number, end: number, blocks: MarkdownBlock[]): Unit[] {
+    const first: Unit = { start, blockStart: true };
+    const units: Unit[] = [first];
+
+    for (const block of blocks) {
+        if (block.end <= start || block.start >= end) continue;
+        for (const unit of blockUnits(content, block)) {
+            if (unit.start <= start) {
+                // 范围从块中间开始时沿用所在位置的上下文
+                first.prefix = unit.prefix;
+            } else if (unit.start < end) {
+                units.push(unit);
+            }
+        }
+    }
+    return units;
+}
+
+/** 块内部可作为分块起点的位置（第一个为块起点） */
+function blockUnits(content: string, block: MarkdownBlock): Unit[] {
+    const units = innerUnits(content, block);
+    units[0].blockStart = true;
+    return units;
+}
+
+function innerUnits(content: string, block: MarkdownBlock): Unit[] {
+    const lines: { start: number; text: string }[] = [];
+    let offset = block.start;
+    for (const text of content.slice(block.start, block.end).split("\n")) {
+        lines.push({ start: offset, text });
+        offset += text.length + 1;
+    }
+
+    switch (block.type) {
+        case "table": {
+            // 表头行 + 分隔行作为整体，之后每一行都可作为起点
+            if (lines.length < 3) return [{ start: block.start }];
+            const header = content.slice(block.start, lines[2].start);
+            return [{ start: block.start }, ...lines.slice(2).map(l => ({ start: l.start, prefix: header }))];
+        }
+        case "list": {
+            // 缩进不超过首项的列表项作为起点，子项与续行跟随所属的列表项
+            const indent = lines[0].text.match(LIST_ITEM)?.[1].length ?? 0;
+            return lines
+                .filter((l, i) => {
+                    const match = l.text.match(LIST_ITEM);
+                    return i === 0 || (match !== null && match[1].length <= indent);
+                })
+                .map(l => ({ start: l.start }));
+        }
+        case "callout":
+        case "code":
+        case "math": {
+            const head = content.slice(block.start, lines[0].start + lines[0].text.length + 1);
+            return [{ start: block.start }, ...lines.slice(1).map(l => ({ start: l.start, prefix: head }))];
+        }
+        case "quote":
+            return lines.map(l => ({ start: l.start }));
+        default:
+            return [{ start: block.start }];
+    }
+}
+
+/** 无法按结构切分时，在换行、句末或空白处强制切分（每段都重复上下文） */
+function hardSplit(
+    content: string,
+    start: number,
+    end: number,
+    prefix: string | undefined,
+    headings: string[],
+    counter: ITokenCounter,
+    limit: number
+): ChunkSpan[] {
+    // 上下文占用的 Token（扣除重复计算的特殊 Token）
+    const reserved = prefix ? counter.count(prefix) - counter.count("") : 0;
+    const budget = Math.max(1, limit - reserved);
+
+    const spans: ChunkSpan[] = [];
+    let cursor = start;
+    while (cursor < end) {
+        let next = fitTokens(counter, content, cursor, budget, end);
+        if (next < end) next = findBreak(content, cursor, next, Math.floor((next - cursor) / 2));
+        spans.push({ start: cursor, end: next, headings, ...(prefix ? { prefix } : {}) });
+        cursor = next;
+    }
+    return spans;
+}
@@ -0,0 +1,26 @@
+/**
+ * 白泽 Baize - 分块切分器接口
+ * 
+ * 每种分块策略对应一个切分器，只负责决定分块边界，
+ * frontmatter 过滤、嵌入展开、行号与元数据由 MarkdownChunker 统一处理
+ */
+import type { MarkdownStructure } from "./markdown-structure";
+
+/** 切分出的一个片段（偏移量相对于去除 frontmatter 后的正文） */
+export interface ChunkSpan {
+    start: number;
+    end: number;
+
+    /** 片段起点所属的标题层级路径 */
+    headings: string[];
+
+    /** 拼接在片段正文之前的上下文（如切分表格时重复的表头），不计入偏移量 */
+    prefix?: string;
+}
+
+export interface IChunkSplitter {
+    /**
+     * @param structure - 正文的块结构，切分点不应落在不可切分的块内部
+     */
+    split(content: string, structure: MarkdownStructure): ChunkSpan[];
+}
@@ -0,0 +1,58 @@
+/**
+ * 白泽 Baize - 固定长度切分器 (FIXED_LENGTH)
+ * 
+ * 忽略标题与段落，按分块大小（Token 数）滑动切分，相邻分块按 overlapThreshold 重叠；
+ * 切分点在末尾 10% 范围内回退到换行、句末或空白处，避免切断单词，
+ * 且不落在代码块、表格、列表等不可切分的块内部
+ */
+import type { ChunkingOptions } from "../strategies";
+import type { ITokenCounter } from "../../interfaces/token-counter";
+import type { ChunkSpan, IChunkSplitter } from "./chunk-splitter";
+import type { MarkdownStructure } from "./markdown-structure";
+import { findBreak, headingPathAt, skipAtomic, snapOutside } from "./markdown-structure";
+import { fitTokens } from "../token-budget";
+
+export class FixedLengthSplitter implements IChunkSplitter {
+    private options: ChunkingOptions;
+    private counter: ITokenCounter;
+
+    constructor(options: ChunkingOptions, counter: ITokenCounter) {
+        this.options = options;
+        this.counter = counter;
+    }
+
+    split(content: string, structure: MarkdownStructure): ChunkSpan[] {
+        const { chunkSize, overlapThreshold, minChunkSize } = this.options;
+        const { headings, atomic } = structure;
+
+        const spans: ChunkSpan[] = [];
+        let cursor = 0;
+        let previousEnd = 0;
+        while (cursor < content.length) {
+            let end = fitTokens(this.counter, content, cursor, chunkSize);
+            if (end < content.length) {
+                end = findBreak(content, cursor, end, Math.floor((end - cursor) * 0.1));
+                // 回退到块起点不能越过上一个分块的终点，否则改为包含整个块（过大时由 splitToLimit 切分）
+                end = snapOutside(end, atomic, previousEnd);
+            }
+
+            if (content.slice(cursor, end).trim()) {
+                spans.push({ start: cursor, end, headings: headingPathAt(headings, cursor) });
+            }
+            if (end >= content.length) break;
+            previousEnd = end;
+
+            const next = skipAtomic(end - Math.floor((end - cursor) * overlapThreshold), atomic);
+            cursor = Math.max(cursor + 1, next);
+        }
+
+        // 末尾过短的分块并入上一个分块
+        const last = spans[spans.length - 1];
+        const previous = spans[spans.length - 2];
+        if (previous && this.counter.count(content.slice(last.start, last.end).trim()) < minChunkSize) {
+            previous.end = last.end;
+            spans.pop();
+        }
+        return spans;
+    }
+}
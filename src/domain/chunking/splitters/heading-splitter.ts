@@ -0,0 +1,54 @@
+/**
+ * 白泽 Baize - 标题切分器 (HEADING_SPLIT)
+ * 
+ * 每个标题及其下属正文作为一个分块，不按分块大小细分；
+ * 过短的章节（如只有标题的上级章节）与下一章节合并
+ * 
+ * 超出模型最大输入长度的章节仍会由 MarkdownChunker 强制切分，适合章节较短、结构清晰的笔记
+ */
+import type { ChunkingOptions } from "../strategies";
+import type { ITokenCounter } from "../../interfaces/token-counter";
+import type { ChunkSpan, IChunkSplitter } from "./chunk-splitter";
+import type { MarkdownStructure } from "./markdown-structure";
+import { headingPathAt } from "./markdown-structure";
+
+export class HeadingSplitter implements IChunkSplitter {
+    private options: ChunkingOptions;
+    private counter: ITokenCounter;
+
+    constructor(options: ChunkingOptions, counter: ITokenCounter) {
+        this.options = options;
+        this.counter = counter;
+    }
+
+    split(content: string, structure: MarkdownStructure): ChunkSpan[] {
+        const { headings } = structure;
+        const bounds = [0, ...headings.map(h => h.offset).filter(o => o > 0), content.length];
+
+        const spans: ChunkSpan[] = [];
+        let start: number | null = null;
+        for (let i = 0; i < bounds.length - 1; i++) {
+            const end = bounds[i + 1];
+            if (start === null) {
+                if (!content.slice(bounds[i], end).trim()) continue;
+                start = bounds[i];
+            }
+
+            // 过短的章节继续向后合并，标题路径取合并的最后一个章节
+            const isLast = i === bounds.length - 2;
+            if (this.counter.count(content.slice(start, end).trim()) < this.options.minChunkSize && !isLast) continue;
+
+            spans.push({ start, end, headings: headingPathAt(headings, bounds[i]) });
+            start = null;
+        }
+
+        // 末尾过短的章节并入上一个分块
+        const last = spans[spans.length - 1];
+        const previous = spans[spans.length - 2];
+        if (previous && this.counter.count(content.slice(last.start, last.end).trim()) < this.options.minChunkSize) {
+            previous.end = last.end;
+            spans.pop();
+        }
+        return spans;
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * 白泽 Baize - 混合切分器 (HYBRID)
+ * 
+ * 先按标题切分为章节，超过分块大小的章节再按长度细分：
+ * 优先在换行、句子边界处切分，不切断代码块、表格、列表等结构，相邻分块保留重叠
+ * 分块大小以 Token 计，重叠按分块字符长度的比例计算
+ */
+import type { ChunkingOptions } from "../strategies";
+import type { ITokenCounter } from "../../interfaces/token-counter";
+import { fitTokens } from "../token-budget";
+import type { ChunkSpan, IChunkSplitter } from "./chunk-splitter";
+import type { MarkdownStructure } from "./markdown-structure";
+import { findBreak, headingPathAt, skipAtomic } from "./markdown-structure";
+
+export class HybridSplitter implements IChunkSplitter {
+    private options: ChunkingOptions;
+    private counter: ITokenCounter;
+
+    constructor(options: ChunkingOptions, counter: ITokenCounter) {
+        this.options = options;
+        this.counter = counter;
+    }
+
+    split(content: string, structure: MarkdownStructure): ChunkSpan[] {
+        const { headings, atomic } = structure;
+
+        const spans: ChunkSpan[] = [];
+        const bounds = [0, ...headings.map(h => h.offset).filter(o => o > 0), content.length];
+        for (let i = 0; i < bounds.length - 1; i++) {
+            const start = bounds[i];
+            const end = bounds[i + 1];
+            if (!content.slice(start, end).trim()) continue;
+            spans.push(...this.refineSection(content, start, end, headingPathAt(headings, start), atomic));
+        }
+        return spans;
+    }
+
+    /** 细化过大的章节 */
+    private refineSection(
+        content: string,
+        sectionStart: number,
+        sectionEnd: number,
+        headings: string[],
+        atomic: [number, number][]
+    ): ChunkSpan[] {
+        const { chunkSize, overlapThreshold, minChunkSize } = this.options;
+        if (this.counter.count(content.slice(sectionStart, sectionEnd)) <= chunkSize) {
+            return [{ start: sectionStart, end: sectionEnd, headings }];
+        }
+
+        const spans: ChunkSpan[] = [];
+        const text = content.slice(sectionStart, sectionEnd);
+        let cursor = 0;
+
+        while (cursor < text.length) {
+            let end = fitTokens(this.counter, text, cursor, chunkSize);
+
+            if (end < text.length) {
+                // 在末尾 10% 范围内回退到换行、句子边界或空白处
+                end = findBreak(text, cursor, end, Math.floor((end - cursor) * 0.1));
+
+                // 检查是否切断了代码块、表格、列表等不可切分的块
+                const globalStart = sectionStart + cursor;
+                const globalEnd = sectionStart + end;
+                for (const [bStart, bEnd] of atomic) {
+                    if (globalEnd > bStart && globalEnd < bEnd) {
+                        // 如果切断了块，直接延申到块结束（如果不太长，过大的块由 MarkdownChunker 按结构切分）
+                        // 或者在块开始前切断（分块本身从块中开始时只能延伸）
+                        const extended = this.counter.count(content.slice(globalStart, bEnd));
+                        if (extended <= chunkSize * 1.5 || bStart <= globalStart) {
+                            end = bEnd - sectionStart;
+                        } else {
+                            end = bStart - sectionStart;
+                        }
+                        break;
+                    }
+                }
+            }
+
+            end = Math.min(end, text.length);
+            if (this.counter.count(text.slice(cursor, end).trim()) >= minChunkSize || cursor === 0) {
+                spans.push({ start: sectionStart + cursor, end: sectionStart + end, headings });
+            }
+
+            if (end >= text.length) break;
+
+            // 移动游标，考虑重合度
+            const overlap = Math.floor((end - cursor) * overlapThreshold);
+            // 重叠部分不从块的中间开始
+            const nextCursor = skipAtomic(sectionStart + end - overlap, atomic) - sectionStart;
+            if (nextCursor <= cursor) {
+                cursor = end; // 防止死循环
+            } else {
+                cursor = nextCursor;
+            }
+        }
+
+        return spans;
+    }
+}
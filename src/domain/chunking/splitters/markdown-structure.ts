@@ -0,0 +1,270 @@
+/**
+ * 白泽 Baize - Markdown 结构识别
+ * 
+ * 将正文按行解析为块级节点（标题、段落、代码、公式、表格、列表、Callout、引用），
+ * 供各切分器共用：不可切分的块范围、标题位置与句子边界
+ */
+import { sentenceBreaks } from "./sentence-segmenter";
+
+/** 块级节点类型 */
+export type MarkdownBlockType =
+    | "heading"
+    | "paragraph"
+    | "code"
+    | "math"
+    | "table"
+    | "list"
+    | "callout"
+    | "quote";
+
+/** 一个块级节点 */
+export interface MarkdownBlock {
+    type: MarkdownBlockType;
+    /** 块起点（首行行首） */
+    start: number;
+    /** 块终点（末行行尾，不含换行符） */
+    end: number;
+}
+
+/** 正文中的一个标题 */
+export interface HeadingMark {
+    /** 标题行起点 */
+    offset: number;
+    level: number;
+    title: string;
+}
+
+/** 正文的结构信息（由 MarkdownChunker 解析一次，交给切分器使用） */
+export interface MarkdownStructure {
+    blocks: MarkdownBlock[];
+    /** 不可在内部切分的块范围 [start, end)，按起点升序 */
+    atomic: [number, number][];
+    headings: HeadingMark[];
+}
+
+/** 不可在内部切分的块类型（过大时按行、表格行或列表项切分，见 block-splitter） */
+const ATOMIC_TYPES: ReadonlySet<MarkdownBlockType> = new Set<MarkdownBlockType>([
+    "code", "math", "table", "list", "callout", "quote",
+]);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^(#{1,6})\s+(.+)$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+const CALLOUT = /^\s*>\s*\[![^\]]+\]/;
+const QUOTE = /^\s*>/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+interface Line {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/** 解析正文结构 */
+export function analyzeStructure(content: string): MarkdownStructure {
+    const blocks = parseBlocks(content);
+    const headings: HeadingMark[] = [];
+    for (const block of blocks) {
+        if (block.type !== "heading") continue;
+        const match = content.slice(block.start, block.end).match(HEADING);
+        if (match) headings.push({ offset: block.start, level: match[1].length, title: match[2].trim() });
+    }
+    return {
+        blocks,
+        atomic: blocks.filter(b => ATOMIC_TYPES.has(b.type)).map(b => [b.start, b.end]),
+        headings,
+    };
+}
+
+/** 按行解析块级节点（空行不属于任何块） */
+export function parseBlocks(content: string): MarkdownBlock[] {
+    const lines = splitLines(content);
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    const push = (type: MarkdownBlockType, first: number, last: number) => {
+        blocks.push({ type, start: lines[first].start, end: lines[last].end });
+    };
+
+    while (i < lines.length) {
+        const text = lines[i].text;
+        if (!text.trim()) {
+            i++;
+            continue;
+        }
+
+        // 围栏代码块：到相同字符、不短于起始围栏的结束围栏为止
+        const fence = text.match(FENCE);
+        if (fence) {
+            const marker = fence[1];
+            let j = i + 1;
+            while (j < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[j].text)) j++;
+            const last = Math.min(j, lines.length - 1);
+            push("code", i, last);
+            i = last + 1;
+            continue;
+        }
+
+        // 公式块 $$ ... $$（同一行闭合时为单行公式）
+        if (text.trim().startsWith("$$")) {
+            let j = i;
+            if (!/\$\$.*\$\$/.test(text.trim())) {
+                j = i + 1;
+                while (j < lines.length && !lines[j].text.includes("$$")) j++;
+            }
+            const last = Math.min(j, lines.length - 1);
+            push("math", i, last);
+            i = last + 1;
+            continue;
+        }
+
+        if (HEADING.test(text)) {
+            push("heading", i, i);
+            i++;
+            continue;
+        }
+
+        // 表格：表头行 + 分隔行，之后连续的含 | 的行
+        if (text.includes("|") && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1].text)) {
+            let j = i + 2;
+            while (j < lines.length && lines[j].text.trim() && lines[j].text.includes("|")) j++;
+            push("table", i, j - 1);
+            i = j;
+            continue;
+        }
+
+        // Callout 与引用：连续的 > 行
+        if (QUOTE.test(text)) {
+            const type = CALLOUT.test(text) ? "callout" : "quote";
+            let j = i + 1;
+            while (j < lines.length && QUOTE.test(lines[j].text)) j++;
+            push(type, i, j - 1);
+            i = j;
+            continue;
+        }
+
+        // 列表：列表项、缩进的续行，以及后面仍是列表内容的空行
+        if (LIST_ITEM.test(text)) {
+            let last = i;
+            let j = i + 1;
+            while (j < lines.length) {
+                const line = lines[j].text;
+                if (!line.trim()) {
+                    j++;
+                    continue;
+                }
+                if (!LIST_ITEM.test(line) && !/^\s/.test(line)) break;
+                last = j;
+                j++;
+            }
+            push("list", i, last);
+            i = last + 1;
+            continue;
+        }
+
+        // 段落：直到空行或其他块开始
+        let j = i + 1;
+        while (j < lines.length && lines[j].text.trim() && !startsBlock(lines, j)) j++;
+        push("paragraph", i, j - 1);
+        i = j;
+    }
+    return blocks;
+}
+
+/** 该行是否开始一个新的非段落块 */
+function startsBlock(lines: Line[], i: number): boolean {
+    const text = lines[i].text;
+    return FENCE.test(text)
+        || text.trim().startsWith("$$")
+        || HEADING.test(text)
+        || QUOTE.test(text)
+        || LIST_ITEM.test(text)
+        || (text.includes("|") && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1].text));
+}
+
+function splitLines(content: string): Line[] {
+    const lines: Line[] = [];
+    let start = 0;
+    while (start <= content.length) {
+        let end = content.indexOf("\n", start);
+        if (end < 0) end = content.length;
+        const lineEnd = end > start && content[end - 1] === "\r" ? end - 1 : end;
+        lines.push({ start, end: lineEnd, text: content.slice(start, lineEnd) });
+        start = end + 1;
+    }
+    return lines;
+}
+
+/**
+ * 片段的块类型：只含一种块（标题除外）时为该类型，只含标题时为 heading，否则为 mixed
+ */
+export function blockTypeOf(blocks: MarkdownBlock[], start: number, end: number): MarkdownBlockType | "mixed" {
+    const types = new Set<MarkdownBlockType>();
+    for (const block of blocks) {
+        if (block.start >= end) break;
+        if (block.end > start && block.type !== "heading") types.add(block.type);
+    }
+    if (types.size === 0) return "heading";
+    return types.size === 1 ? [...types][0] : "mixed";
+}
+
+/** 偏移量是否落在不可切分的块内部 */
+export function inAtomicBlock(offset: number, atomic: [number, number][]): boolean {
+    return atomicBlockAt(offset, atomic) !== null;
+}
+
+/** 偏移量所在的不可切分块（块的起点与终点不算内部） */
+export function atomicBlockAt(offset: number, atomic: [number, number][]): [number, number] | null {
+    for (const range of atomic) {
+        if (range[0] >= offset) break;
+        if (offset < range[1]) return range;
+    }
+    return null;
+}
+
+/**
+ * 将落在不可切分块内部的切分点移到块外
+ * 块起点在 floor 之后时移到块起点，否则移到块终点
+ */
+export function snapOutside(offset: number, atomic: [number, number][], floor: number): number {
+    const block = atomicBlockAt(offset, atomic);
+    if (!block) return offset;
+    return block[0] > floor ? block[0] : block[1];
+}
+
+/** 重叠起点落在不可切分块内部时移到块终点（已完整包含在上一个分块中的块不再重复） */
+export function skipAtomic(offset: number, atomic: [number, number][]): number {
+    return atomicBlockAt(offset, atomic)?.[1] ?? offset;
+}
+
+/** 偏移量所在位置的标题层级路径，如 ["# 章节", "# 小节"] */
+export function headingPathAt(headings: HeadingMark[], offset: number): string[] {
+    let path: string[] = [];
+    for (const heading of headings) {
+        if (heading.offset > offset) break;
+        path = path.slice(0, heading.level - 1);
+        path[heading.level - 1] = `# ${heading.title}`;
+    }
+    return path.filter(Boolean);
+}
+
+/**
+ * 在 [start, end) 范围内寻找靠近 end 的切分点
+ * 依次尝试换行、句子边界（见 sentence-segmenter）、空白，只在 end 之前 lookback 个字符内寻找
+ * @returns 切分点（分隔符之后的位置），找不到时返回 end
+ */
+export function findBreak(text: string, start: number, end: number, lookback: number): number {
+    const from = Math.max(start + 1, end - lookback);
+    const window = text.slice(from, end);
+
+    const newline = window.lastIndexOf("\n");
+    if (newline >= 0) return from + newline + 1;
+
+    const sentences = sentenceBreaks(text, from, end);
+    if (sentences.length > 0) return sentences[sentences.length - 1];
+
+    const space = window.search(/\s\S*$/);
+    if (space >= 0) return from + space + 1;
+
+    return end;
+}
@@ -0,0 +1,82 @@
+/**
+ * 白泽 Baize - 语义段落切分器 (SEMANTIC_PARAGRAPH)
+ * 
+ * 按空行划分自然段落（代码块、表格、列表等整体视为一个段落），
+ * 相邻段落依次合并到分块大小（Token 数）；遇到标题时开始新的分块。
+ * 单个段落超过分块大小时按其结构细分（表格按行、列表按列表项、正文按句子）
+ */
+import type { ChunkingOptions } from "../strategies";
+import type { ITokenCounter } from "../../interfaces/token-counter";
+import type { ChunkSpan, IChunkSplitter } from "./chunk-splitter";
+import type { MarkdownStructure } from "./markdown-structure";
+import { headingPathAt, inAtomicBlock } from "./markdown-structure";
+import { splitToLimit } from "./block-splitter";
+
+export class ParagraphSplitter implements IChunkSplitter {
+    private options: ChunkingOptions;
+    private counter: ITokenCounter;
+
+    constructor(options: ChunkingOptions, counter: ITokenCounter) {
+        this.options = options;
+        this.counter = counter;
+    }
+
+    split(content: string, structure: MarkdownStructure): ChunkSpan[] {
+        const { chunkSize, minChunkSize } = this.options;
+        const { headings, atomic } = structure;
+        const headingStarts = new Set(headings.map(h => h.offset));
+
+        const spans: ChunkSpan[] = [];
+        // pathAt：取标题路径的位置（短分块并入后续标题时取该标题）
+        let current: { start: number; end: number; pathAt: number } | null = null;
+        const flush = () => {
+            if (current) {
+                spans.push({ start: current.start, end: current.end, headings: headingPathAt(headings, current.pathAt) });
+            }
+            current = null;
+        };
+
+        for (const [start, end] of this.paragraphs(content, atomic)) {
+            const tooShort = current !== null
+                && this.counter.count(content.slice(current.start, current.end).trim()) < minChunkSize;
+
+            // 过长的段落单独细分，过短的当前分块（如只有标题）并入第一段
+            if (this.counter.count(content.slice(start, end)) > chunkSize) {
+                const from = current && tooShort ? current.start : start;
+                if (from === start) flush();
+                current = null;
+                const long = { start: from, end, headings: [] };
+                for (const piece of splitToLimit(content, long, structure, this.counter, chunkSize)) {
+                    spans.push({ ...piece, headings: headingPathAt(headings, piece.start) });
+                }
+                continue;
+            }
+
+            if (current) {
+                const tooLong = this.counter.count(content.slice(current.start, end)) > chunkSize;
+                // 遇到标题时开始新分块；当前分块过短（如只有上级标题）时继续合并
+                if (tooLong || (headingStarts.has(start) && !tooShort)) flush();
+            }
+            current = current
+                ? { start: current.start, end, pathAt: headingStarts.has(start) ? start : current.pathAt }
+                : { start, end, pathAt: start };
+        }
+        flush();
+        return spans;
+    }
+
+    /** 按空行划分段落，返回各段落的 [start, end)（不含段落间的空行） */
+    private paragraphs(content: string, atomic: [number, number][]): [number, number][] {
+        const paragraphs: [number, number][] = [];
+        const separator = /\n[ \t]*\n\s*/g;
+        let start = 0;
+        let match;
+        while ((match = separator.exec(content)) !== null) {
+            if (inAtomicBlock(match.index, atomic)) continue;
+            if (content.slice(start, match.index).trim()) paragraphs.push([start, match.index]);
+            start = separator.lastIndex;
+        }
+        if (content.slice(start).trim()) paragraphs.push([start, content.length]);
+        return paragraphs;
+    }
+}
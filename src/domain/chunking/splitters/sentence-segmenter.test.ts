@@ -0,0 +1,100 @@
+/**
+ * 白泽 Baize - 句子边界测试
+ * 
+ * 同一组用例分别在 Intl.Segmenter 与确定性规则两条路径上运行，两者的切分结果应一致
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type SentenceBreaks = typeof import("./sentence-segmenter").sentenceBreaks;
+
+/** 按边界将文本切成句子 */
+function splitSentences(sentenceBreaks: SentenceBreaks, text: string): string[] {
+    const offsets = [0, ...sentenceBreaks(text, 0, text.length), text.length];
+    return offsets.slice(1).map((end, i) => text.slice(offsets[i], end));
+}
+
+const PATHS = [
+    { name: "Intl.Segmenter", segmenter: Intl.Segmenter },
+    { name: "规则回退", segmenter: undefined },
+];
+
+describe.each(PATHS)("sentenceBreaks（$name）", ({ segmenter }) => {
+    let sentenceBreaks: SentenceBreaks;
+    const split = (text: string) => splitSentences(sentenceBreaks, text);
+
+    beforeEach(async () => {
+        // 分割器在模块内缓存，每组用例重新加载模块
+        vi.resetModules();
+        vi.stubGlobal("Intl", { ...Intl, Segmenter: segmenter });
+        ({ sentenceBreaks } = await import("./sentence-segmenter"));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("缩写之后不断句", () => {
+        expect(split("See e.g. the docs. Then Mr. Smith left. Fig. 3 shows it.")).toEqual([
+            "See e.g. the docs. ",
+            "Then Mr. Smith left. ",
+            "Fig. 3 shows it.",
+        ]);
+        expect(split("J. K. Rowling wrote it. Done.")).toEqual(["J. K. Rowling wrote it. ", "Done."]);
+        expect(split("Really. approx. five items.")).toEqual(["Really. approx. five items."]);
+    });
+
+    it("小数、网址与版本号中的句点不断句", () => {
+        expect(split("Pi is 3.14 today. Visit example.com/a.b now. Version v1.2 works.")).toEqual([
+            "Pi is 3.14 today. ",
+            "Visit example.com/a.b now. ",
+            "Version v1.2 works.",
+        ]);
+    });
+
+    it("全角 ！？；… 均为句末，连用的标点属于同一句", () => {
+        expect(split("真的吗！太好了？是的；继续……然后结束。")).toEqual([
+            "真的吗！",
+            "太好了？",
+            "是的；",
+            "继续……",
+            "然后结束。",
+        ]);
+        expect(split("Wait?! Really.")).toEqual(["Wait?! ", "Really."]);
+    });
+
+    it("句末的引号属于本句", () => {
+        expect(split("他说：“好的。”然后走了。")).toEqual(["他说：“好的。”", "然后走了。"]);
+    });
+
+    it("日文与韩文标点", () => {
+        expect(split("東京に行きました。楽しかった！また行きたい？")).toEqual([
+            "東京に行きました。",
+            "楽しかった！",
+            "また行きたい？",
+        ]);
+        expect(split("안녕하세요. 반갑습니다! 잘 지내요?")).toEqual([
+            "안녕하세요. ",
+            "반갑습니다! ",
+            "잘 지내요?",
+        ]);
+    });
+
+    it("中英混排", () => {
+        expect(split("我们使用 Python 3.12 开发。It works well. 然后部署到 https://example.com/x.y 上。最后完成！")).toEqual([
+            "我们使用 Python 3.12 开发。",
+            "It works well. ",
+            "然后部署到 https://example.com/x.y 上。",
+            "最后完成！",
+        ]);
+    });
+
+    it("只返回范围内的边界", () => {
+        const text = "第一句。第二句。第三句。第四句。";
+        expect(sentenceBreaks(text, 4, 12)).toEqual([8]);
+        expect(sentenceBreaks(text, 0, 4)).toEqual([]);
+    });
+});
+
+it("运行环境提供 Intl.Segmenter（否则上面只测到了回退路径）", () => {
+    expect(typeof Intl.Segmenter).toBe("function");
+});
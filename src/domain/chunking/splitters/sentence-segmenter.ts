@@ -0,0 +1,116 @@
+/**
+ * 白泽 Baize - 句子边界
+ * 
+ * 为切分器寻找切分点提供句子边界，支持中英日韩混排：
+ * - 有 Intl.Segmenter 时使用其句子规则（能识别小数、网址、句点后接小写字母等情况），
+ *   补充它不视为句末的全角分号与省略号，并去掉缩写之后的边界
+ * - 否则使用确定性的规则：
+ *   全角句末标点（。！？；… 等）之后即为边界；半角 . ? ! 之后须为空白或中日韩文字，
+ *   小数与网址（标点后无空白）、常见缩写（e.g. / Mr. / Fig.）、单字母缩写（J. K.）及后接小写字母时不是边界
+ * 
+ * 边界位于句末标点、其后的引号与括号以及空格之后，即下一句的起点
+ */
+
+/** 全角句末标点（含日文句点与连用的问号、感叹号） */
+const CJK_TERMINATORS = "。！？；…｡．‼⁇⁈⁉";
+
+/** 半角句末标点 */
+const ASCII_TERMINATORS = ".?!";
+
+/** 句末标点之后仍属于本句的引号与括号 */
+const CLOSERS = "\"'”’」』）)】]》〉";
+
+/** 中日韩文字（假名、汉字、谚文） */
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+
+/** 句点之后不断句的常见缩写（小写、不含末尾句点） */
+const ABBREVIATIONS: ReadonlySet<string> = new Set([
+    "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "vs", "cf", "al", "approx",
+    "fig", "figs", "eq", "eqs", "no", "vol", "ch", "sec", "p", "pp", "inc", "ltd", "corp",
+    "e.g", "i.e", "a.m", "p.m", "u.s", "u.k",
+]);
+
+/** 识别缩写时向前查看的字符数 */
+const MAX_ABBREVIATION = 16;
+
+/** 向后多取的字符数：判断范围末尾的标点是否为句末时需要看到其后的文字 */
+const LOOKAHEAD = 16;
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+/**
+ * text 中 (start, end) 范围内的句子边界（下一句的起点），升序
+ */
+export function sentenceBreaks(text: string, start: number, end: number): number[] {
+    const intl = getSegmenter();
+    const breaks = new Set(ruleBreaks(text, start, end, intl !== null));
+    if (intl) {
+        const slice = text.slice(start, Math.min(text.length, end + LOOKAHEAD));
+        for (const { index } of intl.segment(slice)) {
+            const offset = start + index;
+            if (offset > start && offset < end && !isAbbreviation(text, offset)) breaks.add(offset);
+        }
+    }
+    return [...breaks].sort((a, b) => a - b);
+}
+
+/** 运行环境的句子分割器，不支持时为 null */
+function getSegmenter(): Intl.Segmenter | null {
+    if (segmenter === undefined) {
+        segmenter = typeof Intl !== "undefined" && typeof Intl.Segmenter === "function"
+            ? new Intl.Segmenter(undefined, { granularity: "sentence" })
+            : null;
+    }
+    return segmenter;
+}
+
+/**
+ * 按标点规则寻找句子边界
+ * @param cjkOnly - 只识别全角标点（半角标点交给 Intl.Segmenter）
+ */
+function ruleBreaks(text: string, start: number, end: number, cjkOnly: boolean): number[] {
+    const breaks: number[] = [];
+    for (let i = start; i < end; i++) {
+        const ch = text[i];
+        const ascii = ASCII_TERMINATORS.includes(ch);
+        if (!CJK_TERMINATORS.includes(ch) && (cjkOnly || !ascii)) continue;
+
+        // 连续的标点（如 ?!、……）与其后的引号、括号属于同一句
+        let j = i + 1;
+        while (j < text.length && (isTerminator(text[j]) || CLOSERS.includes(text[j]))) j++;
+        const last = j - 1;
+
+        // 半角标点后须为空白、中日韩文字或文末（排除 3.14、example.com、v1.2）
+        if (ascii && j < text.length && !/\s/.test(text[j]) && !CJK_CHAR.test(text[j])) {
+            i = last;
+            continue;
+        }
+        while (j < text.length && /[^\S\r\n]/.test(text[j])) j++;
+
+        if (j > start && j < end && !(ascii && isAbbreviation(text, j))) breaks.push(j);
+        i = last;
+    }
+    return breaks;
+}
+
+/**
+ * 边界是否位于缩写之后：前一句以缩写或单字母加句点结尾，或下一句以小写字母开头
+ * @param offset - 边界（下一句起点）
+ */
+function isAbbreviation(text: string, offset: number): boolean {
+    let i = offset - 1;
+    while (i >= 0 && /\s/.test(text[i])) i--;
+    while (i >= 0 && CLOSERS.includes(text[i])) i--;
+    if (text[i] !== "." || text[i - 1] === ".") return false;
+
+    // 下一句以小写字母开头（如 "approx. five"）
+    if (/^[a-z]/.test(text.slice(offset, offset + 1))) return true;
+
+    const word = text.slice(Math.max(0, i - MAX_ABBREVIATION), i).match(/[A-Za-z][A-Za-z.]*$/)?.[0] ?? "";
+    if (!word) return false;
+    return ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Z]$/.test(word);
+}
+
+function isTerminator(ch: string): boolean {
+    return CJK_TERMINATORS.includes(ch) || ASCII_TERMINATORS.includes(ch);
+}
@@ -2,6 +2,12 @@
  * 白泽 Baize - 分块策略定义
  */
 
+/**
+ * 分块器版本号
+ * 分块算法或默认参数发生变化时递增，已索引文件会因版本不一致而重新索引
+ */
+export const CHUNKER_VERSION = 8;
+
 /** 分块策略枚举 */
 export enum ChunkingStrategy {
     /** 固定长度分块：简单按字符数/Token数切分，带重叠度 */
@@ -22,13 +28,13 @@ export interface ChunkingOptions {
     /** 策略类型 */
     strategy: ChunkingStrategy;
 
-    /** 目标分块大小（字符数或 Token 预估） */
+    /** 目标分块大小（Token 数，超过模型最大输入长度时以模型为准） */
     chunkSize: number;
 
     /** 重叠度（0.0 ~ 1.0），通常建议 0.1 ~ 0.2 */
     overlapThreshold: number;
 
-    /** 最小分块保留大小（太小的块会被合并或丢弃） */
+    /** 最小分块保留大小（Token 数，太小的块会被合并或丢弃） */
     minChunkSize: number;
 
     /** 是否保留 YAML frontmatter（通常设为 false） */
@@ -36,6 +42,12 @@ export interface ChunkingOptions {
 
     /** 是否解析 Obsidian 嵌入内容 ![[...]] */
     resolveEmbeds: boolean;
+
+    /** 是否在向量化时为分块加上上下文标题（见 context-header） */
+    contextHeaders: boolean;
+
+    /** 写入上下文标题的 frontmatter 属性名 */
+    contextProperties: string[];
 }
 
 /** 默认分块配置 */
@@ -43,7 +55,25 @@ export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
     strategy: ChunkingStrategy.HYBRID,
     chunkSize: 500,
     overlapThreshold: 0.15,
-    minChunkSize: 50,
+    minChunkSize: 20,
     keepFrontmatter: false,
     resolveEmbeds: false,
+    contextHeaders: false,
+    contextProperties: [],
 };
+
+/** 分块策略与分块器版本标记（写入分块元数据），如 "hybrid@4" */
+export function chunkerStamp(strategy: ChunkingStrategy): string {
+    return `${strategy}@${CHUNKER_VERSION}`;
+}
+
+/**
+ * 分块配置摘要：列出与默认值不同的配置项，默认配置时为空字符串
+ * 记录在索引清单中，配置变更后已索引文件会重新分块
+ */
+export function chunkingConfigKey(options: Partial<ChunkingOptions>): string {
+    return (Object.keys(DEFAULT_CHUNKING_OPTIONS) as (keyof ChunkingOptions)[])
+        .filter(key => options[key] !== undefined && String(options[key]) !== String(DEFAULT_CHUNKING_OPTIONS[key]))
+        .map(key => `${key}=${options[key]}`)
+        .join(";");
+}
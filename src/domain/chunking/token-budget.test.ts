@@ -0,0 +1,46 @@
+/**
+ * 白泽 Baize - 分块 Token 预算测试
+ */
+import { describe, expect, it } from "vitest";
+import { EstimatedTokenCounter, fitTokens } from "./token-budget";
+import type { ITokenCounter } from "../interfaces/token-counter";
+
+/** 逐个位置检查的参考实现 */
+function naiveFit(counter: ITokenCounter, text: string, start: number, limit: number, end = text.length): number {
+    let best = start + 1;
+    for (let i = start + 1; i <= end; i++) {
+        if (counter.count(text.slice(start, i)) <= limit) best = i;
+    }
+    return best;
+}
+
+describe("fitTokens", () => {
+    const counter = new EstimatedTokenCounter(256);
+    const text = "Lorem ipsum dolor sit amet, 中文混排的句子。consectetur adipiscing elit. ".repeat(20);
+
+    it("与逐个位置检查的结果一致", () => {
+        for (const [start, limit] of [[0, 10], [0, 64], [17, 40], [300, 5], [0, 2000]]) {
+            expect(fitTokens(counter, text, start, limit)).toBe(naiveFit(counter, text, start, limit));
+        }
+        expect(fitTokens(counter, text, 10, 30, 60)).toBe(naiveFit(counter, text, 10, 30, 60));
+    });
+
+    it("预算不足一个字符时至少前进一个字符", () => {
+        expect(fitTokens(counter, text, 5, 0)).toBe(6);
+    });
+
+    it("只计算分块附近的文本，不随剩余文本长度增长", () => {
+        const long = "word ".repeat(100_000);
+        let counted = 0;
+        const spy: ITokenCounter = {
+            maxTokens: 256,
+            count: (t: string) => {
+                counted += t.length;
+                return counter.count(t);
+            },
+        };
+        const end = fitTokens(spy, long, 0, 256);
+        expect(end).toBe(naiveFit(counter, long.slice(0, 4000), 0, 256));
+        expect(counted).toBeLessThan(50 * end);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * 白泽 Baize - 分块 Token 预算
+ * 
+ * 分块大小以 Token 计：模型分词器可用时精确计算，
+ * 否则用 EstimatedTokenCounter 按 WordPiece 分词的特点保守估算
+ */
+import type { ITokenCounter } from "../interfaces/token-counter";
+
+/** 未知模型的最大输入长度 */
+export const DEFAULT_MAX_TOKENS = 256;
+
+/** 特殊 Token 数（[CLS] 与 [SEP]） */
+const SPECIAL_TOKENS = 2;
+
+/** 估算时每个 Token 覆盖的拉丁字母 / 数字数 */
+const CHARS_PER_WORD_PIECE = 4;
+
+/** 估算时的切分单元：中日韩单字、连续的字母数字、单个符号 */
+const PIECE_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}]+|\S/gu;
+
+/** 拉丁字母与数字组成的单词 */
+const LATIN_WORD = /^[\p{Script=Latin}\p{N}]+$/u;
+
+/**
+ * Token 数估算器（模型分词器不可用时使用）
+ * - 拉丁字母与数字组成的单词：每 4 个字符 1 个 Token（向上取整）
+ * - 中日韩文字、其他文字、标点与符号：每个字符 1 个 Token
+ */
+export class EstimatedTokenCounter implements ITokenCounter {
+    readonly maxTokens: number;
+
+    constructor(maxTokens = DEFAULT_MAX_TOKENS) {
+        this.maxTokens = maxTokens;
+    }
+
+    count(text: string): number {
+        let tokens = SPECIAL_TOKENS;
+        for (const match of text.matchAll(PIECE_PATTERN)) {
+            const piece = match[0];
+            tokens += LATIN_WORD.test(piece) ? Math.ceil(piece.length / CHARS_PER_WORD_PIECE) : [...piece].length;
+        }
+        return tokens;
+    }
+}
+
+/**
+ * 从 start 开始、Token 数不超过 limit 的最远位置（至少前进一个字符）
+ * 先从按估算字符数确定的窗口开始成倍扩大，找到超出预算的位置后再按字符位置二分查找，
+ * 只计算分块附近的文本，不随剩余文本长度增长；假设 Token 数随文本增长单调不减
+ */
+export function fitTokens(counter: ITokenCounter, text: string, start: number, limit: number, end = text.length): number {
+    // lo：已知不超出预算的位置（或至少前进的一个字符），hi：待检查的窗口终点
+    let lo = start + 1;
+    let hi = Math.min(end, start + Math.max(1, limit) * CHARS_PER_WORD_PIECE);
+    while (counter.count(text.slice(start, hi)) <= limit) {
+        if (hi >= end) return end;
+        lo = hi;
+        hi = Math.min(end, start + (hi - start) * 2);
+    }
+
+    hi -= 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (counter.count(text.slice(start, mid)) <= limit) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+}
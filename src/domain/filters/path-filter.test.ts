@@ -0,0 +1,71 @@
+/**
+ * 白泽 Baize - 索引排除规则测试
+ */
+import { describe, expect, it } from "vitest";
+import { PathFilter } from "./path-filter";
+
+function excluded(rules: string[], paths: string[]): boolean[] {
+    const filter = new PathFilter({ excludePaths: rules });
+    return paths.map(p => filter.isPathExcluded(p));
+}
+
+describe("PathFilter 路径规则", () => {
+    it("始终排除系统目录", () => {
+        expect(excluded([], [".obsidian/app.json", ".trash/a.md", "notes/a.md"])).toEqual([true, true, false]);
+    });
+
+    it("glob：不含 / 的规则匹配任意层级，含 / 的规则从根匹配", () => {
+        expect(excluded(["*.excalidraw.md"], ["a.excalidraw.md", "x/y/b.excalidraw.md", "c.md"])).toEqual([true, true, false]);
+        expect(excluded(["templates/**"], ["templates/a.md", "templates/x/b.md", "notes/templates/c.md"])).toEqual([true, true, false]);
+        expect(excluded(["Daily/{2023,2024}/*"], ["Daily/2023/a.md", "Daily/2024/b.md", "Daily/2025/c.md"])).toEqual([true, true, false]);
+    });
+
+    it("以 / 结尾的规则只匹配目录", () => {
+        expect(excluded(["drafts/"], ["drafts/a.md", "x/drafts/b.md", "drafts"])).toEqual([true, true, false]);
+    });
+
+    it("以 / 开头的文件夹规则锚定到根，不按正则处理", () => {
+        expect(excluded(["/Journal/"], ["Journal/2025-01-01.md", "Notes/Journal-review.md", "Notes/Journal/a.md"]))
+            .toEqual([true, false, false]);
+        expect(excluded(["/Archive/old"], ["Archive/old/a.md", "Archive/older.md", "Archive/new/a.md"]))
+            .toEqual([true, false, false]);
+    });
+
+    it("右键菜单写入的 / + 路径规则只排除该文件或文件夹", () => {
+        expect(excluded(["/Projects/Plan.md"], ["Projects/Plan.md", "Other/Projects/Plan.md"])).toEqual([true, false]);
+        expect(excluded(["/Projects"], ["Projects/a.md", "Projects2/a.md"])).toEqual([true, false]);
+    });
+
+    it("正则：re: 前缀或含正则专用符号的 /.../flags", () => {
+        expect(excluded(["re:^Journal/"], ["Journal/a.md", "Notes/Journal/a.md"])).toEqual([true, false]);
+        expect(excluded(["re:/^journal\\//i"], ["Journal/a.md", "Notes/a.md"])).toEqual([true, false]);
+        expect(excluded(["/^Journal\\//i"], ["journal/a.md", "Notes/Journal/a.md"])).toEqual([true, false]);
+    });
+
+    it("去掉 g、y 标志，同一规则对每个文件的结果稳定", () => {
+        const filter = new PathFilter({ excludePaths: ["re:/\\.canvas$/gy", "/draft\\.md$/g"] });
+        const results = ["a.canvas", "b.canvas", "c.canvas", "x/draft.md", "y/draft.md"].map(p => filter.isPathExcluded(p));
+        expect(results).toEqual([true, true, true, true, true]);
+    });
+
+    it("非法正则被忽略", () => {
+        expect(excluded(["re:(unclosed"], ["(unclosed/a.md", "a.md"])).toEqual([false, false]);
+    });
+
+    it("反向规则重新包含，后出现的规则优先", () => {
+        expect(excluded(["templates/**", "!templates/keep.md"], ["templates/a.md", "templates/keep.md"])).toEqual([true, false]);
+        expect(excluded(["!templates/keep.md", "templates/**"], ["templates/keep.md"])).toEqual([true]);
+    });
+});
+
+describe("PathFilter.check", () => {
+    const filter = new PathFilter({ excludePaths: ["private/"], excludeTags: ["#secret"], maxFileSizeKB: 1 });
+
+    it("按路径、大小、frontmatter 与标签（含子标签）排除", () => {
+        expect(filter.check({ path: "private/a.md" })).not.toBeNull();
+        expect(filter.check({ path: "a.md", size: 2048 })).not.toBeNull();
+        expect(filter.check({ path: "a.md", frontmatter: { baize: false } })).not.toBeNull();
+        expect(filter.check({ path: "a.md", tags: ["#Secret/work"] })).not.toBeNull();
+        expect(filter.check({ path: "a.md", size: 100, tags: ["#secrets"], frontmatter: { baize: true } })).toBeNull();
+    });
+});
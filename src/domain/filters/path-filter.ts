@@ -0,0 +1,251 @@
+/**
+ * 白泽 Baize - 索引排除规则
+ * 
+ * 实时同步、全量同步与搜索结果过滤共用的排除判断：
+ * 1. 路径规则：glob（如 `templates/**`、`*.excalidraw.md`、`/Journal/`）、正则（如 `re:^Journal/`、`/^Journal\//i`）
+ *    以 `!` 开头表示反向规则（重新包含），与 .gitignore 一样后出现的规则优先
+ *    `/.../flags` 只有在标志合法且含正则专用符号（^ $ \ ( ) [ ] | +）时才按正则处理，
+ *    否则是以 / 开头锚定到 Vault 根的路径（如 `/Journal/`、`/Archive/old`）
+ * 2. Frontmatter 退出：`baize: false`
+ * 3. 标签排除：含指定标签（包括其子标签）的笔记不索引
+ * 4. 大小上限：超过上限的文件不索引
+ */
+import type { CachedMetadata, TFile } from "obsidian";
+import type { SearchResult } from "../models/search-result";
+
+/** 排除规则配置 */
+export interface PathFilterRules {
+    /** 路径规则（glob / 以 re: 开头或 /.../flags 形式的正则 / 以 ! 开头的反向规则） */
+    excludePaths: string[];
+
+    /** 排除的标签（可带或不带 #） */
+    excludeTags: string[];
+
+    /** 文件大小上限（KB），0 表示不限制 */
+    maxFileSizeKB: number;
+}
+
+/** 待判断的文件信息 */
+export interface FilterCandidate {
+    path: string;
+    size?: number;
+    frontmatter?: Record<string, unknown>;
+    tags?: string[];
+}
+
+/** 始终排除的系统目录 */
+const BUILTIN_EXCLUDES = [".obsidian/", ".trash/"];
+
+/** 显式正则规则的前缀 */
+const REGEX_PREFIX = "re:";
+
+/** /.../flags 形式的正则 */
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+/** 只在正则中有意义、不会出现在 glob 路径规则中的符号 */
+const REGEX_ONLY_CHARS = /[\^$\\()[\]|+]/;
+
+/** frontmatter 中用于退出索引的字段 */
+const OPT_OUT_KEY = "baize";
+
+interface CompiledRule {
+    negated: boolean;
+    /** 仅匹配目录（规则以 / 结尾） */
+    dirOnly: boolean;
+    regex: RegExp;
+}
+
+export class PathFilter {
+    private rules: CompiledRule[] = [];
+    private excludeTags: string[] = [];
+    private maxBytes = 0;
+
+    constructor(rules: Partial<PathFilterRules> = {}) {
+        this.setRules(rules);
+    }
+
+    /** 更新规则（设置变更时调用） */
+    setRules(rules: Partial<PathFilterRules>): void {
+        const patterns = [...BUILTIN_EXCLUDES, ...(rules.excludePaths ?? [])];
+        this.rules = patterns
+            .map(p => p.trim())
+            .filter(Boolean)
+            .map(p => compileRule(p))
+            .filter((r): r is CompiledRule => r !== null);
+        this.excludeTags = (rules.excludeTags ?? [])
+            .map(normalizeTag)
+            .filter(Boolean);
+        this.maxBytes = Math.max(0, rules.maxFileSizeKB ?? 0) * 1024;
+    }
+
+    /** 仅根据路径规则判断是否排除 */
+    isPathExcluded(path: string): boolean {
+        const targets = pathWithAncestors(path);
+        let excluded = false;
+        for (const rule of this.rules) {
+            const candidates = rule.dirOnly ? targets.slice(1) : targets;
+            if (candidates.some(t => rule.regex.test(t))) {
+                excluded = !rule.negated;
+            }
+        }
+        return excluded;
+    }
+
+    /**
+     * 完整判断是否排除
+     * @returns 排除原因；不排除时返回 null
+     */
+    check(candidate: FilterCandidate): string | null {
+        if (this.isPathExcluded(candidate.path)) {
+            return "路径匹配排除规则";
+        }
+
+        if (this.maxBytes > 0 && candidate.size !== undefined && candidate.size > this.maxBytes) {
+            return `文件超过大小上限 (${Math.round(candidate.size / 1024)} KB)`;
+        }
+
+        const optOut = candidate.frontmatter?.[OPT_OUT_KEY];
+        if (optOut === false || optOut === "false") {
+            return `frontmatter 设置了 ${OPT_OUT_KEY}: false`;
+        }
+
+        if (this.excludeTags.length > 0 && candidate.tags) {
+            for (const tag of candidate.tags.map(normalizeTag)) {
+                const hit = this.excludeTags.find(ex => tag === ex || tag.startsWith(ex + "/"));
+                if (hit) return `含排除标签 #${hit}`;
+            }
+        }
+
+        return null;
+    }
+
+    /** 结合 Obsidian 元数据缓存判断文件是否排除 */
+    checkFile(file: TFile, cache: CachedMetadata | null): string | null {
+        return this.check({
+            path: file.path,
+            size: file.stat.size,
+            frontmatter: cache?.frontmatter,
+            tags: collectTags(cache),
+        });
+    }
+
+    /** 过滤掉来自已排除路径的搜索结果 */
+    filterResults(results: SearchResult[]): SearchResult[] {
+        return results.filter(r => !this.isPathExcluded(r.chunk.vectorId.split("::")[0]));
+    }
+}
+
+/** 从元数据缓存中收集正文标签与 frontmatter 标签 */
+function collectTags(cache: CachedMetadata | null): string[] {
+    if (!cache) return [];
+    const tags = cache.tags?.map(t => t.tag) ?? [];
+    const fmTags = cache.frontmatter?.tags;
+    if (Array.isArray(fmTags)) {
+        tags.push(...fmTags.map(String));
+    } else if (typeof fmTags === "string") {
+        tags.push(...fmTags.split(/[,\s]+/));
+    }
+    return tags;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/** 路径本身及其所有上级目录，如 a/b/c.md → [a/b/c.md, a/b, a] */
+function pathWithAncestors(path: string): string[] {
+    const result = [path];
+    let idx = path.lastIndexOf("/");
+    while (idx > 0) {
+        path = path.slice(0, idx);
+        result.push(path);
+        idx = path.lastIndexOf("/");
+    }
+    return result;
+}
+
+/** 编译单条规则，非法正则返回 null */
+function compileRule(pattern: string): CompiledRule | null {
+    let negated = false;
+    if (pattern.startsWith("!")) {
+        negated = true;
+        pattern = pattern.slice(1);
+    }
+
+    // 显式正则规则：re:源码 或 re:/源码/flags
+    if (pattern.startsWith(REGEX_PREFIX)) {
+        const source = pattern.slice(REGEX_PREFIX.length).trim();
+        const literal = source.match(REGEX_LITERAL);
+        return compileRegex(negated, literal ? literal[1] : source, literal ? literal[2] : "");
+    }
+
+    // /.../flags：标志合法且含正则专用符号时才是正则，否则是锚定到根的路径（如 /Journal/、/Archive/old）
+    const literal = pattern.match(REGEX_LITERAL);
+    if (literal && isRegexFlags(literal[2]) && REGEX_ONLY_CHARS.test(literal[1])) {
+        return compileRegex(negated, literal[1], literal[2]);
+    }
+
+    const dirOnly = pattern.endsWith("/");
+    const body = pattern.replace(/^\/+/, "").replace(/\/+$/, "");
+    if (!body) return null;
+
+    // 不含 / 的规则匹配任意层级的文件名或目录名；以 / 开头表示从 Vault 根匹配（同 .gitignore）
+    const anchored = pattern.startsWith("/") || body.includes("/");
+    const regex = new RegExp(`^${anchored ? "" : "(?:.*/)?"}${globToRegex(body)}$`);
+    return { negated, dirOnly, regex };
+}
+
+/**
+ * 编译正则规则，非法正则返回 null
+ * 去掉 g、y 标志：带这两个标志的 RegExp.test 会记录 lastIndex，对不同文件交替返回不同结果
+ */
+function compileRegex(negated: boolean, source: string, flags: string): CompiledRule | null {
+    if (!source) return null;
+    try {
+        return { negated, dirOnly: false, regex: new RegExp(source, flags.replace(/[gy]/g, "")) };
+    } catch {
+        return null;
+    }
+}
+
+/** 是否为合法且不重复的正则标志 */
+function isRegexFlags(flags: string): boolean {
+    return /^[dgimsuvy]*$/.test(flags) && new Set(flags).size === flags.length;
+}
+
+/** 将 glob 转为正则表达式源码（支持 ** * ? {a,b}） */
+function globToRegex(glob: string): string {
+    let out = "";
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === "*") {
+            if (glob[i + 1] === "*") {
+                const atSegmentStart = i === 0 || glob[i - 1] === "/";
+                if (atSegmentStart && glob[i + 2] === "/") {
+                    // "**/" 匹配零或多级目录
+                    out += "(?:.*/)?";
+                    i += 2;
+                } else {
+                    out += ".*";
+                    i += 1;
+                }
+            } else {
+                out += "[^/]*";
+            }
+        } else if (ch === "?") {
+            out += "[^/]";
+        } else if (ch === "{") {
+            const end = glob.indexOf("}", i);
+            if (end === -1) {
+                out += "\\{";
+            } else {
+                const options = glob.slice(i + 1, end).split(",").map(globToRegex);
+                out += `(?:${options.join("|")})`;
+                i = end;
+            }
+        } else {
+            out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return out;
+}
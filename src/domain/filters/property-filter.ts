@@ -0,0 +1,161 @@
+/**
+ * 白泽 Baize - 笔记属性与属性过滤
+ * 
+ * 笔记属性来自两处，合并为一个带类型的属性表，记录在每个分块的元数据中：
+ * 1. Frontmatter（由 Obsidian 解析的 YAML）
+ * 2. Dataview 行内字段：整行的 `key:: value`（可在列表项中），以及行内的 `[key:: value]`、`(key:: value)`
+ *    代码块、公式与行内代码中的 `::` 不是字段
+ * 
+ * 过滤条件为多个「属性 = 值」的 AND（如 status = active AND project = Baize），
+ * 列表属性包含该值即匹配；比较时忽略属性名与值的大小写，Wiki 链接按链接目标比较
+ */
+import type { PropertyCondition, PropertyScalar, PropertyValue } from "../../infrastructure/database/schema";
+import { parseBlocks } from "../chunking/splitters/markdown-structure";
+import { stripBlockIds } from "../chunking/block-ids";
+
+/** YAML 头部 */
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/** 整行字段：`key:: value`，可带列表标记与任务复选框 */
+const LINE_FIELD = /^[ \t]*(?:(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?)?([^\s:[\]()`][^:[\]()`]*?)::[ \t]*(.*)$/;
+
+/** 行内字段：`[key:: value]` 与 `(key:: value)`，值中可含 Wiki 链接 */
+const BRACKET_FIELD = /\[([^[\]():]+?)::[ \t]*((?:\[\[[^\]]*\]\]|[^[\]])*)\]|\(([^[\]():]+?)::[ \t]*((?:\[\[[^\]]*\]\]|[^()])*)\)/g;
+
+/** 行内代码 */
+const INLINE_CODE = /(`+)[\s\S]*?\1/g;
+
+/** Wiki 链接 [[目标|别名]]，比较时取链接目标 */
+const WIKILINK_PATTERN = /\[\[([^\]|#^]+)[^\]]*\]\]/g;
+
+/** 不作为字段解析的块类型 */
+const SKIPPED_BLOCKS = new Set(["code", "math", "heading"]);
+
+/**
+ * 读取笔记属性：frontmatter 与正文中的 Dataview 行内字段
+ * 同名属性（包括 frontmatter 与行内字段同名）合并为列表，与 Dataview 一致
+ * @param content - 笔记原文（含 YAML 头部），非 Markdown 文件不提供
+ */
+export function readProperties(
+    frontmatter: Record<string, unknown> | undefined,
+    content?: string
+): Record<string, PropertyValue> {
+    const properties: Record<string, PropertyValue> = {};
+    for (const [key, value] of Object.entries(frontmatter ?? {})) {
+        // 旧版本 Obsidian 在 frontmatter 中附带 position
+        if (key === "position") continue;
+        addValues(properties, key, Array.isArray(value) ? value : [value], Array.isArray(value));
+    }
+    if (content !== undefined) {
+        for (const [key, value] of parseInlineFields(content)) {
+            addValues(properties, key, [value], false);
+        }
+    }
+    return properties;
+}
+
+/** 解析正文中的 Dataview 行内字段，按出现顺序返回 [属性名, 值] */
+export function parseInlineFields(content: string): [string, PropertyScalar][] {
+    // YAML 头部替换为空白（保留换行），偏移量不变
+    const body = content.replace(FRONTMATTER_PATTERN, match => match.replace(/[^\n]/g, " "));
+    const fields: [string, PropertyScalar][] = [];
+
+    for (const block of parseBlocks(body)) {
+        if (SKIPPED_BLOCKS.has(block.type)) continue;
+
+        for (const raw of body.slice(block.start, block.end).split("\n")) {
+            // 行尾的块 ID 不属于字段值
+            const line = stripBlockIds(raw.replace(/\r$/, "")).replace(INLINE_CODE, match => " ".repeat(match.length));
+            // 引用与 Callout 中的字段去掉 > 前缀
+            const text = block.type === "quote" || block.type === "callout" ? line.replace(/^[ \t]*(?:>[ \t]?)+/, "") : line;
+
+            const inline = [...text.matchAll(BRACKET_FIELD)];
+            if (inline.length > 0) {
+                for (const m of inline) {
+                    const field = toField(m[1] ?? m[3], m[2] ?? m[4]);
+                    if (field) fields.push(field);
+                }
+                continue;
+            }
+
+            const m = text.match(LINE_FIELD);
+            const field = m ? toField(m[1], m[2]) : null;
+            if (field) fields.push(field);
+        }
+    }
+    return fields;
+}
+
+/**
+ * 属性的过滤词：每个值一项 `属性名=值`（规范化后），用于向量库中的属性列与过滤匹配
+ */
+export function propertyTerms(properties: Record<string, PropertyValue> | undefined): string[] {
+    const terms = new Set<string>();
+    for (const [key, value] of Object.entries(properties ?? {})) {
+        for (const v of ([] as PropertyScalar[]).concat(value)) {
+            terms.add(propertyTerm(key, v));
+        }
+    }
+    return [...terms];
+}
+
+/** 单个条件的过滤词 */
+export function propertyTerm(key: string, value: PropertyScalar): string {
+    return `${normalizeKey(key)}=${normalizeValue(value)}`;
+}
+
+/** 属性是否满足全部条件 */
+export function matchesProperties(
+    properties: Record<string, PropertyValue> | undefined,
+    conditions: PropertyCondition[]
+): boolean {
+    if (conditions.length === 0) return true;
+    const terms = new Set(propertyTerms(properties));
+    return conditions.every(c => terms.has(propertyTerm(c.key, c.value)));
+}
+
+/**
+ * 追加属性值，只保留字符串、数字与布尔值（对象与空值跳过）
+ * @param list - 值来自列表属性（只有一个值时仍记为列表）
+ */
+function addValues(properties: Record<string, PropertyValue>, key: string, values: unknown[], list: boolean): void {
+    const scalars = values.filter((v): v is PropertyScalar =>
+        (typeof v === "string" && v.trim() !== "") || (typeof v === "number" && isFinite(v)) || typeof v === "boolean"
+    );
+    if (scalars.length === 0) return;
+
+    const existing = properties[key];
+    if (existing === undefined) {
+        properties[key] = list ? scalars : scalars[0];
+        return;
+    }
+    const merged = ([] as PropertyScalar[]).concat(existing);
+    for (const v of scalars) {
+        if (!merged.includes(v)) merged.push(v);
+    }
+    properties[key] = merged;
+}
+
+/** 行内字段的属性名与带类型的值（数字与 true/false 转为对应类型） */
+function toField(rawKey: string | undefined, rawValue: string | undefined): [string, PropertyScalar] | null {
+    // 属性名可带粗体、斜体等格式，如 **状态**:: 进行中
+    const key = (rawKey ?? "").replace(/[*_~=]/g, "").trim();
+    const value = (rawValue ?? "").trim();
+    if (!key || !value) return null;
+
+    if (/^-?\d+(?:\.\d+)?$/.test(value)) return [key, Number(value)];
+    if (/^(?:true|false)$/i.test(value)) return [key, value.toLowerCase() === "true"];
+    return [key, value];
+}
+
+function normalizeKey(key: string): string {
+    return key.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+function normalizeValue(value: PropertyScalar): string {
+    return String(value)
+        .replace(WIKILINK_PATTERN, (_, target: string) => target)
+        .trim()
+        .replace(/\s+/g, " ")
+        .toLowerCase();
+}
@@ -0,0 +1,43 @@
+/**
+ * 白泽 Baize - 搜索过滤条件测试
+ */
+import { describe, expect, it } from "vitest";
+import { matchesFilter, normalizePathScope } from "./search-filter";
+import type { FilterTarget } from "./search-filter";
+
+function target(file_path: string): FilterTarget {
+    return { file_path, text: "", metadata: { tags: [], file_mtime: 0, properties: {} } };
+}
+
+describe("matchesFilter 路径范围", () => {
+    it("按完整的文件夹匹配，不匹配名称中包含该片段的其他文件夹或文件", () => {
+        const filter = { paths: ["work"] };
+        expect(matchesFilter(target("work/plan.md"), filter)).toBe(true);
+        expect(matchesFilter(target("Work/sub/plan.md"), filter)).toBe(true);
+        expect(matchesFilter(target("homework/plan.md"), filter)).toBe(false);
+        expect(matchesFilter(target("archive/network.md"), filter)).toBe(false);
+        expect(matchesFilter(target("work.md"), filter)).toBe(false);
+    });
+
+    it("可指定单个文件，多个范围之间为 OR", () => {
+        const filter = { paths: ["Projects/", "notes/a.md"] };
+        expect(matchesFilter(target("projects/x.md"), filter)).toBe(true);
+        expect(matchesFilter(target("notes/a.md"), filter)).toBe(true);
+        expect(matchesFilter(target("notes/a.md.bak"), filter)).toBe(false);
+    });
+
+    it("排除范围同样按文件夹匹配", () => {
+        const filter = { excludePaths: ["archive"] };
+        expect(matchesFilter(target("archive/old.md"), filter)).toBe(false);
+        expect(matchesFilter(target("archives/old.md"), filter)).toBe(true);
+    });
+});
+
+describe("normalizePathScope", () => {
+    it("去掉首尾的斜杠与 ./ 并转为小写", () => {
+        expect(normalizePathScope("/Projects/")).toBe("projects");
+        expect(normalizePathScope("./Daily/2025")).toBe("daily/2025");
+        expect(normalizePathScope(".obsidian")).toBe(".obsidian");
+        expect(normalizePathScope("/")).toBe("");
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * 白泽 Baize - 搜索过滤条件
+ * 
+ * 向量库之外（Voy、混合检索中只被关键词命中的分块）按同一语义判断分块是否满足 VectorSearchFilter，
+ * 与 LanceDB 的 where 条件保持一致：
+ * - 路径：位于任一文件夹下（或即该文件）即匹配，按完整的路径段比较，不区分大小写
+ * - 标签：包含全部标签，父标签匹配其子标签（#work 匹配 #work/meeting）
+ * - 日期：按分块入库时记录的文件修改时间
+ * - 短语：分块原文包含全部短语（不区分大小写）
+ */
+import type { ChunkMetadata, VectorSearchFilter } from "../../infrastructure/database/schema";
+import { matchesProperties } from "./property-filter";
+
+/** 待判断的分块 */
+export interface FilterTarget {
+    file_path: string;
+    text: string;
+    metadata: Pick<ChunkMetadata, "tags" | "file_mtime" | "properties">;
+}
+
+/** 过滤条件是否为空（无任何条件时可直接走 ANN 检索） */
+export function isEmptyFilter(filter: VectorSearchFilter | undefined): boolean {
+    if (!filter) return true;
+    return !filter.properties?.length
+        && !filter.paths?.length
+        && !filter.excludePaths?.length
+        && !filter.tags?.length
+        && !filter.excludeTags?.length
+        && !filter.phrases?.length
+        && filter.after === undefined
+        && filter.before === undefined;
+}
+
+/** 分块是否满足全部条件 */
+export function matchesFilter(target: FilterTarget, filter: VectorSearchFilter | undefined): boolean {
+    if (!filter) return true;
+
+    const path = target.file_path.toLowerCase();
+    const inScope = (scope: string) => {
+        const prefix = normalizePathScope(scope);
+        return !prefix || path === prefix || path.startsWith(`${prefix}/`);
+    };
+    if (filter.paths?.length && !filter.paths.some(inScope)) return false;
+    if (filter.excludePaths?.some(p => normalizePathScope(p) && inScope(p))) return false;
+
+    if (filter.tags?.length || filter.excludeTags?.length) {
+        const tags = new Set(tagTerms(target.metadata.tags));
+        if (filter.tags?.some(t => !tags.has(normalizeTag(t)))) return false;
+        if (filter.excludeTags?.some(t => tags.has(normalizeTag(t)))) return false;
+    }
+
+    const mtime = target.metadata.file_mtime ?? 0;
+    if (filter.after !== undefined && mtime < filter.after) return false;
+    if (filter.before !== undefined && mtime >= filter.before) return false;
+
+    if (filter.phrases?.length) {
+        const text = target.text.toLowerCase();
+        if (filter.phrases.some(p => !text.includes(p.toLowerCase()))) return false;
+    }
+
+    return matchesProperties(target.metadata.properties, filter.properties ?? []);
+}
+
+/**
+ * 标签的过滤词：规范化的标签及其全部父标签（work/meeting → work、work/meeting）
+ */
+export function tagTerms(tags: string[] | undefined): string[] {
+    const terms = new Set<string>();
+    for (const tag of tags ?? []) {
+        const parts = normalizeTag(String(tag)).split("/").filter(Boolean);
+        for (let i = 1; i <= parts.length; i++) {
+            terms.add(parts.slice(0, i).join("/"));
+        }
+    }
+    return [...terms];
+}
+
+/**
+ * 路径范围的规范形式：去掉首尾的 / 与开头的 ./ 并转为小写（Projects/ → projects）
+ * 为空时表示整个 Vault
+ */
+export function normalizePathScope(scope: string): string {
+    return scope.trim().replace(/^\.?\/+/, "").replace(/\/+$/, "").toLowerCase();
+}
+
+/** 去掉 # 前缀并转为小写 */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, "").toLowerCase();
+}
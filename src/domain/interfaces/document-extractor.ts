@@ -0,0 +1,55 @@
+/**
+ * 白泽 Baize - IDocumentExtractor 接口
+ * 
+ * 将 Vault 中不同类型的文件（Markdown、纯文本、Canvas、PDF 等）
+ * 统一转换为可分块的文本段落，并保留页码、节点等结构信息
+ */
+import type { TFile } from "obsidian";
+
+/** 段落中一处已解析的嵌入 ![[...]] */
+export interface EmbedSpan {
+    /** 嵌入语法在段落正文中的起止偏移量 */
+    start: number;
+    end: number;
+
+    /** 嵌入来源，如 "笔记.md"、"笔记.md#标题"、"笔记.md#^块" */
+    source: string;
+
+    /** 展开后的正文（已递归展开其中的嵌入） */
+    text: string;
+}
+
+/** 提取出的一个文本段落（如 PDF 的一页、Canvas 的一个文本节点） */
+export interface ExtractedSection {
+    /** 段落正文（Markdown 或纯文本） */
+    text: string;
+
+    /** 段落所属的上级标题（如 Canvas 分组名），会合并到分块的标题路径中 */
+    headings?: string[];
+
+    /** PDF 页码 (1-indexed) */
+    page?: number;
+
+    /** Canvas 节点 ID */
+    nodeId?: string;
+
+    /** 已解析的嵌入（按出现顺序），分块时展开到向量化文本中 */
+    embeds?: EmbedSpan[];
+}
+
+/** 文件提取结果 */
+export interface ExtractedDocument {
+    /** 按原文顺序排列的段落 */
+    sections: ExtractedSection[];
+
+    /** 文档标题（未提供时使用文件名） */
+    title?: string;
+}
+
+export interface IDocumentExtractor {
+    /** 支持的文件扩展名（小写、不含点） */
+    readonly extensions: string[];
+
+    /** 读取文件并提取文本 */
+    extract(file: TFile): Promise<ExtractedDocument>;
+}
@@ -4,6 +4,8 @@
  * 领域层定义的向量嵌入接口
  * 负责将文本转换为高维向量
  */
+import type { ITokenCounter } from "./token-counter";
+
 export interface IEmbedder {
     /**
      * 加载嵌入模型
@@ -28,4 +30,7 @@ export interface IEmbedder {
 
     /** 获取当前模型占用的内存估计（字节） */
     getMemoryUsage(): number;
+
+    /** 当前模型的分词器（模型未加载或不支持时返回 null，分块器改用估算） */
+    getTokenCounter?(): ITokenCounter | null;
 }
@@ -0,0 +1,27 @@
+/**
+ * 白泽 Baize - IIndexGate 接口
+ * 
+ * 索引闸门：决定索引调度器当前是否允许处理队列
+ * 用于移动端按充电状态、前后台状态或手动模式暂缓索引
+ * 暂缓期间文件变更照常入队，放行后继续处理
+ */
+
+/** 闸门状态 */
+export interface IndexGateState {
+    /** 暂缓索引的原因；为 null 时允许索引 */
+    reason: string | null;
+
+    /** 用户能否通过“立即索引”跳过（等待充电、手动模式可跳过，后台运行时不可跳过） */
+    overridable: boolean;
+}
+
+export interface IIndexGate {
+    /** 当前状态 */
+    getState(): IndexGateState;
+
+    /**
+     * 订阅状态变化
+     * @returns 取消订阅函数
+     */
+    onChange(listener: () => void): () => void;
+}
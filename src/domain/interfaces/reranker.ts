@@ -0,0 +1,27 @@
+/**
+ * 白泽 Baize - IReranker 接口
+ * 
+ * 领域层定义的重排序接口
+ * 交叉编码器 (Cross-Encoder) 同时读取查询与分块原文给出相关度，比向量余弦相似度更准确，
+ * 但每个候选都要完整推理一次，只用于对少量候选重新排序
+ */
+export interface IReranker {
+    /**
+     * 加载重排序模型
+     * @param modelId - 模型 ID（如 "Xenova/ms-marco-MiniLM-L-6-v2"）
+     */
+    loadModel(modelId: string, options?: { quantized?: boolean }): Promise<void>;
+
+    /** 模型是否已加载（未就绪时检索跳过重排序） */
+    isReady(): boolean;
+
+    /**
+     * 计算查询与每段文本的相关度（分数越大越相关，不同模型的取值范围不同）
+     * @param query - 查询文本
+     * @param texts - 候选文本
+     */
+    score(query: string, texts: string[]): Promise<number[]>;
+
+    /** 卸载模型，释放内存 */
+    unloadModel(): Promise<void>;
+}
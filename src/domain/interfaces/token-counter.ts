@@ -0,0 +1,13 @@
+/**
+ * 白泽 Baize - ITokenCounter 接口
+ * 
+ * 按 Embedding 模型的分词器计算文本长度，
+ * 分块器据此控制分块大小，保证分块不超过模型的最大输入长度
+ */
+export interface ITokenCounter {
+    /** 模型的最大输入长度（Token 数，含特殊 Token），超出部分会被模型截断 */
+    readonly maxTokens: number;
+
+    /** 文本编码后的 Token 数（含 [CLS]、[SEP] 等特殊 Token） */
+    count(text: string): number;
+}
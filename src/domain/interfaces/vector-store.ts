@@ -6,13 +6,26 @@
  * 
  * 遵循依赖倒置原则：Domain 层定义接口，Infrastructure 层实现接口
  */
-import type { VectorRecord, IndexStats } from "../../infrastructure/database/schema";
+import type {
+    VectorRecord,
+    IndexStats,
+    EmbeddingProfile,
+    VectorWriteBatch,
+    VectorSearchFilter,
+    ParentRecord,
+} from "../../infrastructure/database/schema";
 import type { SearchResult } from "../models/search-result";
 
 export interface IVectorStore {
-    /** 初始化数据库连接，创建或打开表 */
+    /**
+     * 初始化数据库连接，创建或打开表
+     * 已有索引与当前 EmbeddingProfile 不一致时抛出 StorageError
+     */
     init(): Promise<void>;
 
+    /** 该索引绑定的 Embedding 配置（维度不符的向量会被拒绝写入） */
+    getProfile(): EmbeddingProfile;
+
     /**
      * 插入或更新向量记录
      * 按 id (file_path + chunk_index) 去重
@@ -20,7 +33,48 @@ export interface IVectorStore {
     upsert(records: VectorRecord[]): Promise<void>;
 
     /**
-     * 删除指定文件的所有向量记录
+     * 获取指定文件的所有向量记录（含向量），按 chunk_index 升序
+     * 用于增量索引时复用未变化分块的向量
+     */
+    getByFile(filePath: string): Promise<VectorRecord[]>;
+
+    /**
+     * 读取全部向量记录（用于索引校验，开销较大）
+     */
+    getAll(): Promise<VectorRecord[]>;
+
+    /**
+     * 按 id 读取向量记录（含向量，不存在的 id 忽略）
+     * 混合检索中只被关键词命中的分块需要从向量库取回
+     */
+    getByIds(ids: string[]): Promise<VectorRecord[]>;
+
+    /**
+     * 按 id 读取父级分块（不存在的 id 忽略）
+     * RAG 按子分块检索后取其所在的完整章节作为上下文
+     */
+    getParents(ids: string[]): Promise<ParentRecord[]>;
+
+    /**
+     * 按记录 id 删除向量记录
+     */
+    deleteByIds(ids: string[]): Promise<void>;
+
+    /**
+     * 批量提交多个文件的删除与写入
+     * 索引调度器按组提交，避免每个文件都触发一次完整持久化
+     */
+    writeBatch(batch: VectorWriteBatch): Promise<void>;
+
+    /**
+     * 将文件的全部记录与父级分块改写到新路径（file_path 与 id 前缀），不重新向量化
+     * 新路径上已有的记录会被覆盖
+     * @returns 改写的记录数
+     */
+    renamePath(oldPath: string, newPath: string): Promise<number>;
+
+    /**
+     * 删除指定文件的所有向量记录与父级分块
      * @param filePath - 源文件路径（相对于 Vault 根）
      */
     delete(filePath: string): Promise<void>;
@@ -30,13 +84,17 @@ export interface IVectorStore {
      * @param vector - 查询向量
      * @param topK - 返回结果数量
      * @param minScore - 最低相似度阈值
+     * @param filter - 过滤条件（在取 Top-K 之前应用，而不是从 Top-K 中筛选）
      * @returns 按相似度降序排列的搜索结果
      */
-    search(vector: number[], topK: number, minScore?: number): Promise<SearchResult[]>;
+    search(vector: number[], topK: number, minScore?: number, filter?: VectorSearchFilter): Promise<SearchResult[]>;
 
     /** 获取索引统计信息 */
     getStats(): Promise<IndexStats>;
 
     /** 安全关闭数据库连接 */
     close(): Promise<void>;
+
+    /** 删除整个索引（模型迁移完成后清理旧索引） */
+    drop(): Promise<void>;
 }
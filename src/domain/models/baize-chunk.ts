@@ -32,4 +32,34 @@ export interface BaizeChunk {
 
     /** 该分块的继承元数据（标题路径、标签等） */
     metadata: ChunkMetadata;
+
+    /**
+     * 所在的父级分块（完整的标题章节），分块即整个章节时省略
+     * 同一章节的分块共用同一个对象，入库时写入 metadata.parent_id
+     */
+    parent?: ParentChunk;
+}
+
+/** 父级分块：分块所在的完整标题章节（到下一个标题为止），不向量化 */
+export interface ParentChunk {
+    /** 格式: `${filePath}::p${序号}`，由索引调度器统一编号 */
+    id: string;
+
+    /** 章节原文 */
+    text: string;
+
+    offsetStart: number;
+    offsetEnd: number;
+    lineStart: number;
+    lineEnd: number;
+
+    /** 章节的标题路径 */
+    headings: string[];
+}
+
+/** 分块的链接文本：含块 ID 时为 `路径#^块ID`（指向分块中的第一个块 ID），否则为文件路径 */
+export function chunkLinktext(chunk: Pick<BaizeChunk, "vectorId" | "metadata">): string {
+    const path = chunk.vectorId.split("::")[0];
+    const blockId = chunk.metadata.block_ids?.[0];
+    return blockId ? `${path}#^${blockId}` : path;
 }
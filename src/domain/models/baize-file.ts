@@ -9,6 +9,36 @@ import type { BaizeChunk } from "./baize-chunk";
 /** 文件索引状态 */
 export type IndexStatus = "none" | "pending" | "indexed" | "error" | "stale";
 
+/** 索引时的环境标记（用于判断模型或分块器变更后是否需要重建） */
+export interface IndexStamp {
+    /** 文件内容哈希 */
+    contentHash: string;
+
+    /** 生成向量所用的 Embedding 模型 ID */
+    modelId: string;
+
+    /** 分块器版本号 */
+    chunkerVersion: number;
+
+    /** 分块配置摘要（未记录视为默认配置） */
+    chunkerConfig?: string;
+}
+
+/**
+ * 文件索引清单条目（BaizeFile 的持久化形式）
+ * 不包含分块正文，只记录判断是否需要重新索引所需的信息
+ */
+export interface BaizeFileEntry extends Partial<IndexStamp> {
+    path: string;
+    mtime: number;
+    size: number;
+    status: IndexStatus;
+    chunkCount: number;
+    error?: string;
+    /** 最近一次成功索引的时间（毫秒时间戳） */
+    indexedAt?: number;
+}
+
 export class BaizeFile {
     /** 文件路径（相对于 Vault 根） */
     readonly path: string;
@@ -31,22 +61,81 @@ export class BaizeFile {
     /** 文件大小 */
     size: number;
 
+    /** 最近一次索引时的内容哈希、模型与分块器版本 */
+    stamp?: IndexStamp;
+
+    /** 最近一次成功索引的时间 */
+    indexedAt?: number;
+
     /** 文件的所有分块 */
     chunks: BaizeChunk[] = [];
 
-    constructor(tfile: TFile) {
-        this.path = tfile.path;
-        this.name = tfile.name;
-        this.tfile = tfile;
-        this.mtime = tfile.stat.mtime;
-        this.size = tfile.stat.size;
+    /** 从清单恢复时记录的分块数量（清单中不保存分块正文） */
+    private storedChunkCount = 0;
+
+    constructor(source: TFile | BaizeFileEntry) {
+        this.path = source.path;
+        if ("stat" in source) {
+            this.name = source.name;
+            this.tfile = source;
+            this.mtime = source.stat.mtime;
+            this.size = source.stat.size;
+        } else {
+            this.name = source.path.split("/").pop() ?? source.path;
+            this.tfile = null;
+            this.mtime = source.mtime;
+            this.size = source.size;
+        }
+    }
+
+    /** 从持久化清单条目恢复（不关联 TFile） */
+    static fromEntry(entry: BaizeFileEntry): BaizeFile {
+        const file = new BaizeFile(entry);
+        file.status = entry.status;
+        file.error = entry.error;
+        file.indexedAt = entry.indexedAt;
+        file.storedChunkCount = entry.chunkCount;
+        // 内容哈希可能被清空（要求下次索引重新比对），仍保留模型与分块器信息以复用向量
+        if (entry.contentHash !== undefined && entry.modelId && entry.chunkerVersion !== undefined) {
+            file.stamp = {
+                contentHash: entry.contentHash,
+                modelId: entry.modelId,
+                chunkerVersion: entry.chunkerVersion,
+                chunkerConfig: entry.chunkerConfig,
+            };
+        }
+        return file;
+    }
+
+    /** 转换为持久化清单条目 */
+    toEntry(): BaizeFileEntry {
+        return {
+            path: this.path,
+            mtime: this.mtime,
+            size: this.size,
+            status: this.status,
+            chunkCount: this.chunkCount,
+            error: this.error,
+            indexedAt: this.indexedAt,
+            ...this.stamp,
+        };
     }
 
-    /** 判断索引是否过期 */
-    isStale(currentMtime: number): boolean {
+    /** 判断索引是否过期（修改时间更新或文件大小变化） */
+    isStale(currentMtime: number, currentSize?: number): boolean {
+        if (currentSize !== undefined && currentSize !== this.size) return true;
         return this.mtime < currentMtime;
     }
 
+    /** 判断索引是否由指定的模型、分块器版本与分块配置生成 */
+    matchesStamp(modelId: string, chunkerVersion: number, chunkerConfig = ""): boolean {
+        return (
+            this.stamp?.modelId === modelId &&
+            this.stamp.chunkerVersion === chunkerVersion &&
+            (this.stamp.chunkerConfig ?? "") === chunkerConfig
+        );
+    }
+
     /** 标记为处理中 */
     markAsPending(): void {
         this.status = "pending";
@@ -54,10 +143,13 @@ export class BaizeFile {
     }
 
     /** 标记为已完成并更新分块集合 */
-    markAsIndexed(chunks: BaizeChunk[]): void {
+    markAsIndexed(chunks: BaizeChunk[], stamp?: IndexStamp): void {
         this.status = "indexed";
         this.error = undefined;
         this.chunks = chunks;
+        this.storedChunkCount = chunks.length;
+        if (stamp) this.stamp = stamp;
+        this.indexedAt = Date.now();
     }
 
     /** 设置/更新分块集合 */
@@ -67,7 +159,7 @@ export class BaizeFile {
 
     /** 获取分块总数 */
     get chunkCount(): number {
-        return this.chunks.length;
+        return this.chunks.length || this.storedChunkCount;
     }
 
     /** 标记为失败 */
@@ -15,6 +15,9 @@ export interface SearchResult {
     /** 距离（具体含义取决于度量方式，如 L2 或 Cosine） */
     distance: number;
 
+    /** 交叉编码器给出的相关度（经过重排序时才有，结果已按其降序排列） */
+    rerankScore?: number;
+
     /** 搜索高亮片段（可选，用于 UI 显示） */
     highlights?: {
         text: string;
@@ -0,0 +1,42 @@
+/**
+ * 白泽 Baize - 关键词分词
+ * 
+ * 为 BM25 关键词索引切分词项，不依赖词典：
+ * - 拉丁、希腊、西里尔字母与数字按词切分（小写），
+ *   由 - _ . : / 连接的复合词（如 ERR_CONN_RESET、JIRA-1234、v1.2.3）同时保留整体与各部分
+ * - 中日韩文字按相邻两字切分（二元组），单字时保留单字
+ * 
+ * 索引与查询使用同一分词方式，查询「向量检索」与正文「基于向量检索的…」共享二元组即可匹配
+ */
+import type { VectorRecord } from "../../infrastructure/database/schema";
+import { stripBlockIds } from "../chunking/block-ids";
+
+/** 中日韩文字连续段，或字母数字组成的（复合）词 */
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]+|[0-9a-z_\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+(?:[-.:/][0-9a-z_\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+)*/g;
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+
+/** 复合词的分隔符 */
+const COMPOUND_SEPARATOR = /[-_.:/]+/;
+
+/** 切分词项（按出现顺序，可重复） */
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const [word] of text.normalize("NFKC").toLowerCase().matchAll(TOKEN_PATTERN)) {
+        if (CJK_CHAR.test(word[0])) {
+            if (word.length === 1) tokens.push(word);
+            for (let i = 0; i < word.length - 1; i++) tokens.push(word.slice(i, i + 2));
+            continue;
+        }
+
+        tokens.push(word);
+        const parts = word.split(COMPOUND_SEPARATOR).filter(Boolean);
+        if (parts.length > 1) tokens.push(...parts);
+    }
+    return tokens;
+}
+
+/** 分块参与关键词检索的文本：笔记标题与去除块 ID 的分块原文 */
+export function keywordText(record: Pick<VectorRecord, "text" | "metadata">): string {
+    return `${record.metadata.title ?? ""}\n${stripBlockIds(record.text)}`;
+}
@@ -0,0 +1,21 @@
+/**
+ * 白泽 Baize - 搜索语法测试
+ */
+import { describe, expect, it } from "vitest";
+import { parseSearchQuery } from "./query-parser";
+
+describe("parseSearchQuery 日期", () => {
+    it("年、年-月、年-月-日为该时段起点（本地时间）", () => {
+        expect(parseSearchQuery("after:2025").filter.after).toBe(new Date(2025, 0, 1).getTime());
+        expect(parseSearchQuery("after:2025-03").filter.after).toBe(new Date(2025, 2, 1).getTime());
+        expect(parseSearchQuery("before:2024-02-29").filter.before).toBe(new Date(2024, 1, 29).getTime());
+    });
+
+    it("不存在的日期不作为过滤条件，按普通文字处理", () => {
+        for (const query of ["before:2025-02-31", "after:2025-02-29", "after:2025-13", "before:2025-04-31", "after:2025-01-00"]) {
+            const parsed = parseSearchQuery(query);
+            expect(parsed.filter).toEqual({});
+            expect(parsed.text).toBe(query);
+        }
+    });
+});
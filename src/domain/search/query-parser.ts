@@ -0,0 +1,110 @@
+/**
+ * 白泽 Baize - 搜索语法
+ * 
+ * 从搜索框输入中解析过滤条件，其余文字作为语义查询：
+ * 
+ *     path:Projects/ tag:#work after:2025-01 -tag:#archive "exact phrase" 部署流程
+ * 
+ * - `path:文件夹`：位于该文件夹下（或即该文件），多个 path: 之间为 OR；`-path:` 排除
+ * - `tag:#标签`：含该标签（含子标签），多个 tag: 之间为 AND；`-tag:` 排除
+ * - `after:日期` / `before:日期`：按文件修改时间，日期可为 2025、2025-01、2025-01-15，
+ *   after 含当天（当月、当年），before 不含
+ * - `[属性:值]`：属性条件（与 Obsidian 搜索相同的写法）
+ * - `"短语"`：分块原文须包含该短语，短语同时参与语义查询
+ * 
+ * 值含空格时用引号括起（如 path:"My Notes"）；无法识别的 `xx:yy`（如网址）按普通文字处理
+ */
+import type { PropertyCondition, VectorSearchFilter } from "../../infrastructure/database/schema";
+import { normalizeTag } from "../filters/search-filter";
+
+/** 解析结果 */
+export interface ParsedQuery {
+    /** 去掉过滤语法后的查询文字（含短语内容） */
+    text: string;
+    filter: VectorSearchFilter;
+}
+
+/** 可选的 - 前缀、操作符、值（引号或连续非空白）；属性条件；短语；普通文字 */
+const TOKEN_PATTERN = /(-?)(path|tag|after|before):("[^"]*"|\S+)|\[([^\]:]+):([^\]]*)\]|"([^"]*)"|(\S+)/gi;
+
+/** 日期：年、年-月、年-月-日 */
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+
+export function parseSearchQuery(query: string): ParsedQuery {
+    const words: string[] = [];
+    const lists = {
+        paths: [] as string[],
+        excludePaths: [] as string[],
+        tags: [] as string[],
+        excludeTags: [] as string[],
+        phrases: [] as string[],
+        properties: [] as PropertyCondition[],
+    };
+    const dates: Pick<VectorSearchFilter, "after" | "before"> = {};
+
+    for (const m of query.matchAll(TOKEN_PATTERN)) {
+        const [token, negate, op, rawValue, propKey, propValue, phrase, word] = m;
+
+        if (op) {
+            const value = unquote(rawValue);
+            const exclude = negate === "-";
+            const name = op.toLowerCase();
+            if (name === "path" && value) {
+                (exclude ? lists.excludePaths : lists.paths).push(value);
+                continue;
+            }
+            if (name === "tag" && normalizeTag(value)) {
+                (exclude ? lists.excludeTags : lists.tags).push(normalizeTag(value));
+                continue;
+            }
+            const date = name === "after" || name === "before" ? parseDate(value) : null;
+            if (date !== null && !exclude) {
+                dates[name as "after" | "before"] = date;
+                continue;
+            }
+            words.push(token);
+            continue;
+        }
+
+        if (propKey !== undefined) {
+            if (propKey.trim() && propValue.trim()) {
+                lists.properties.push({ key: propKey.trim(), value: propValue.trim() });
+            }
+            continue;
+        }
+
+        if (phrase !== undefined) {
+            if (phrase.trim()) {
+                lists.phrases.push(phrase.trim());
+                words.push(phrase.trim());
+            }
+            continue;
+        }
+
+        words.push(word);
+    }
+
+    const filter: VectorSearchFilter = { ...dates };
+    for (const [key, list] of Object.entries(lists)) {
+        if (list.length > 0) (filter as Record<string, unknown>)[key] = list;
+    }
+    return { text: words.join(" "), filter };
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"(.*)"$/, "$1").trim();
+}
+
+/** 日期所在年、月或日的起始时刻（本地时间），无法识别时返回 null */
+function parseDate(value: string): number | null {
+    const m = value.match(DATE_PATTERN);
+    if (!m) return null;
+
+    const month = m[2] ? Number(m[2]) : 1;
+    const day = m[3] ? Number(m[3]) : 1;
+    const date = new Date(Number(m[1]), month - 1, day);
+
+    // Date 会把超出范围的月、日进位（2025-02-31 → 3 月 3 日），进位过的日期视为无效
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return date.getTime();
+}
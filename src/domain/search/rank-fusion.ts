@@ -0,0 +1,33 @@
+/**
+ * 白泽 Baize - 倒数排名融合 (Reciprocal Rank Fusion)
+ * 
+ * 向量相似度与 BM25 分数量纲不同，无法直接相加；RRF 只使用各路结果中的排名：
+ * 
+ *     score(d) = Σ weight_i / (k + rank_i(d))
+ * 
+ * 未出现在某一路结果中的分块在该路不得分
+ */
+
+/** RRF 平滑常数（常用取值，削弱头部排名之间的差距） */
+export const RRF_K = 60;
+
+/** 一路检索结果：权重与按相关度降序排列的 id */
+export interface RankedList {
+    weight: number;
+    ids: string[];
+}
+
+/**
+ * 融合多路排名
+ * @returns 按融合分数降序排列的 [id, 分数]
+ */
+export function reciprocalRankFusion(lists: RankedList[], k = RRF_K): [string, number][] {
+    const scores = new Map<string, number>();
+    for (const { weight, ids } of lists) {
+        if (weight <= 0) continue;
+        ids.forEach((id, rank) => {
+            scores.set(id, (scores.get(id) ?? 0) + weight / (k + rank + 1));
+        });
+    }
+    return [...scores].sort((a, b) => b[1] - a[1]);
+}
@@ -7,19 +7,30 @@
  * - 使用 LanceDB 嵌入式模式，数据存储在插件目录内
  * - 桌面端通过 native binding (napi-rs) 运行 LanceDB
  * - 移动端降级为内存中简单向量搜索（后续可替换为 WASM 版本）
- * - upsert 通过 delete + add 实现（LanceDB 暂无原生 upsert）
+ * - upsert 通过按 id delete + add 实现（LanceDB 暂无原生 upsert）
  * - 搜索使用余弦相似度（cosine distance）
+ * - 笔记属性写入 properties 列（`\n属性名=值\n` 形式的过滤词），标签写入 tags 列（含父标签），
+ *   修改时间写入 file_mtime 列，搜索过滤条件（属性、路径、标签、日期、短语）下推为 where 条件
+ * - 每个 Embedding 模型使用独立的表，维度不符的向量拒绝写入
+ * - 父级分块不向量化，存放在同名加 `_parents` 后缀的表中，随向量表一起改写与删除
  */
 import type { IVectorStore } from "../../domain/interfaces/vector-store";
 import type {
     VectorRecord,
+    ChunkMetadata,
     IndexStats,
+    EmbeddingProfile,
+    VectorWriteBatch,
+    VectorSearchFilter,
+    ParentRecord,
 } from "./schema";
 import type { SearchResult } from "../../domain/models/search-result";
 import type { BaizeChunk } from "../../domain/models/baize-chunk";
-import { LANCE_TABLE_NAME, MODEL_DIMENSIONS } from "./schema";
+import { LANCE_TABLE_NAME } from "./schema";
 import type { Logger } from "../../shared/logger";
 import { StorageError } from "../../shared/errors";
+import { propertyTerm, propertyTerms } from "../../domain/filters/property-filter";
+import { normalizePathScope, normalizeTag, tagTerms } from "../../domain/filters/search-filter";
 
 /** LanceDB 动态导入的类型占位（避免直接静态导入 native 模块） */
 interface LanceConnection {
@@ -33,17 +44,23 @@ interface LanceTable {
     countRows(): Promise<number>;
     add(data: Record<string, unknown>[]): Promise<void>;
     delete(predicate: string): Promise<void>;
+    update(opts: { where: string; valuesSql: Record<string, string> }): Promise<{ rowsUpdated: number }>;
     search(vector: number[]): LanceQuery;
     filter(predicate: string): LanceFilterQuery;
+    query(): LanceFilterQuery;
+    schema(): Promise<{ fields: { name: string; type?: { listSize?: number } }[] }>;
+    addColumns(transforms: { name: string; valueSql: string }[]): Promise<unknown>;
 }
 
 interface LanceQuery {
+    where(predicate: string): LanceQuery;
     limit(n: number): LanceQuery;
     distanceType(type: string): LanceQuery;
     toArray(): Promise<LanceScanResult[]>;
 }
 
 interface LanceFilterQuery {
+    where(predicate: string): LanceFilterQuery;
     toArray(): Promise<Record<string, unknown>[]>;
 }
 
@@ -52,8 +69,12 @@ interface LanceScanResult {
     file_path: string;
     chunk_index: number;
     text: string;
+    content_hash: string;
     vector: number[];
     metadata: string; // JSON 字符串
+    properties: string;
+    tags: string;
+    file_mtime: number;
     updated_at: string;
     _distance: number;
 }
@@ -61,16 +82,31 @@ interface LanceScanResult {
 export class LanceAdapter implements IVectorStore {
     private db: LanceConnection | null = null;
     private table: LanceTable | null = null;
+    private parentTable: LanceTable | null = null;
     private logger: Logger;
     private dbPath: string;
+    private tableName: string;
+    private profile: EmbeddingProfile;
     private dimensions: number;
     private modulePath?: string;
 
-    constructor(dbPath: string, logger: Logger, modelName?: string, modulePath?: string) {
+    constructor(
+        dbPath: string,
+        logger: Logger,
+        profile: EmbeddingProfile,
+        modulePath?: string,
+        tableName = LANCE_TABLE_NAME
+    ) {
         this.dbPath = dbPath;
         this.logger = logger;
-        this.dimensions = MODEL_DIMENSIONS[modelName ?? "Xenova/all-MiniLM-L6-v2"] ?? 384;
+        this.profile = profile;
+        this.dimensions = profile.dimensions;
         this.modulePath = modulePath;
+        this.tableName = tableName;
+    }
+
+    getProfile(): EmbeddingProfile {
+        return this.profile;
     }
 
     // ─── init() ───
@@ -100,17 +136,19 @@ export class LanceAdapter implements IVectorStore {
 
             // 检查表是否已存在
             const tableNames = await this.db.tableNames();
-            if (tableNames.includes(LANCE_TABLE_NAME)) {
-                this.table = await this.db.openTable(LANCE_TABLE_NAME);
+            if (tableNames.includes(this.tableName)) {
+                this.table = await this.db.openTable(this.tableName);
+                await this.migrateSchema();
                 const count = await this.table.countRows();
-                this.logger.info(`LanceDB 已打开: ${count} 条向量记录`);
+                this.logger.info(`LanceDB 已打开 ${this.tableName}: ${count} 条向量记录 (${this.profile.modelId})`);
             } else {
                 // 创建表：插入一条种子数据定义 schema，然后删除
                 const seedRecord = this.createSeedRecord();
-                this.table = await this.db.createTable(LANCE_TABLE_NAME, [seedRecord]);
+                this.table = await this.db.createTable(this.tableName, [seedRecord]);
                 await this.table.delete('id = "__seed__"');
-                this.logger.info("LanceDB 表已创建");
+                this.logger.info(`LanceDB 表已创建: ${this.tableName} (${this.dimensions} 维)`);
             }
+            this.parentTable = await this.openParentTable(tableNames);
         } catch (e) {
             this.logger.error("LanceDB 引擎不可用", e);
             throw new StorageError(
@@ -123,29 +161,15 @@ export class LanceAdapter implements IVectorStore {
 
     async upsert(records: VectorRecord[]): Promise<void> {
         if (!this.table || records.length === 0) return;
+        this.assertDimensions(records.map(r => r.vector));
 
         try {
-            // LanceDB 暂无原生 upsert，使用 delete + add 模式
-            // 按文件分组删除旧记录
-            const filePaths = [...new Set(records.map(r => r.file_path))];
-            for (const filePath of filePaths) {
-                const escapedPath = filePath.replace(/'/g, "\\'");
-                await this.table.delete(`file_path = '${escapedPath}'`);
-            }
+            // LanceDB 暂无原生 upsert，使用 delete + add 模式（按 id 去重）
+            await this.deleteWhereIdIn(records.map(r => r.id));
 
-            // 序列化 metadata 为 JSON 字符串（LanceDB 不支持嵌套对象）
-            const rows = records.map(r => ({
-                id: r.id,
-                file_path: r.file_path,
-                chunk_index: r.chunk_index,
-                text: r.text,
-                vector: r.vector,
-                metadata: JSON.stringify(r.metadata),
-                updated_at: r.updated_at,
-            }));
-
-            await this.table.add(rows);
-            this.logger.debug(`Upsert ${records.length} 条记录 (${filePaths.length} 个文件)`);
+            await this.table.add(records.map(r => this.toRow(r)));
+            const fileCount = new Set(records.map(r => r.file_path)).size;
+            this.logger.debug(`Upsert ${records.length} 条记录 (${fileCount} 个文件)`);
         } catch (e) {
             throw new StorageError(
                 `向量记录写入失败: ${e instanceof Error ? e.message : String(e)}`
@@ -153,14 +177,169 @@ export class LanceAdapter implements IVectorStore {
         }
     }
 
+    // ─── getByFile() ───
+
+    async getByFile(filePath: string): Promise<VectorRecord[]> {
+        if (!this.table) return [];
+
+        try {
+            const rows = await this.table
+                .query()
+                .where(`file_path = ${this.quote(filePath)}`)
+                .toArray();
+
+            return rows
+                .map((row) => this.fromRow(row))
+                .sort((a, b) => a.chunk_index - b.chunk_index);
+        } catch (e) {
+            throw new StorageError(
+                `读取文件向量记录失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
+    // ─── getAll() ───
+
+    async getAll(): Promise<VectorRecord[]> {
+        if (!this.table) return [];
+
+        try {
+            const rows = await this.table.query().toArray();
+            return rows.map((row) => this.fromRow(row));
+        } catch (e) {
+            throw new StorageError(
+                `读取全部向量记录失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
+    // ─── getByIds() ───
+
+    async getByIds(ids: string[]): Promise<VectorRecord[]> {
+        if (!this.table || ids.length === 0) return [];
+
+        try {
+            const rows = await this.table
+                .query()
+                .where(`id IN (${ids.map(id => this.quote(id)).join(", ")})`)
+                .toArray();
+            return rows.map((row) => this.fromRow(row));
+        } catch (e) {
+            throw new StorageError(
+                `读取向量记录失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
+    // ─── getParents() ───
+
+    async getParents(ids: string[]): Promise<ParentRecord[]> {
+        if (!this.parentTable || ids.length === 0) return [];
+
+        try {
+            const rows = await this.parentTable
+                .query()
+                .where(`id IN (${ids.map(id => this.quote(id)).join(", ")})`)
+                .toArray();
+
+            return rows.map(row => ({
+                id: row.id as string,
+                file_path: row.file_path as string,
+                text: row.text as string,
+                metadata: typeof row.metadata === "string" ? JSON.parse(row.metadata) : row.metadata,
+                updated_at: row.updated_at as string,
+            }) as ParentRecord);
+        } catch (e) {
+            throw new StorageError(
+                `读取父级分块失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
+    // ─── deleteByIds() ───
+
+    async deleteByIds(ids: string[]): Promise<void> {
+        if (!this.table || ids.length === 0) return;
+
+        try {
+            await this.deleteWhereIdIn(ids);
+            this.logger.debug(`已删除 ${ids.length} 条向量记录`);
+        } catch (e) {
+            throw new StorageError(
+                `删除向量记录失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
+    // ─── writeBatch() ───
+
+    async writeBatch(batch: VectorWriteBatch): Promise<void> {
+        if (!this.table) return;
+        this.assertDimensions(batch.upserts.map(r => r.vector));
+
+        try {
+            if (batch.deleteFiles.length > 0) {
+                const predicate = `file_path IN (${batch.deleteFiles.map(p => this.quote(p)).join(", ")})`;
+                await this.table.delete(predicate);
+                await this.parentTable?.delete(predicate);
+            }
+
+            for (const [oldPath, newPath] of batch.renames ?? []) {
+                await this.movePath(oldPath, newPath);
+            }
+
+            // 覆盖写入的记录同样先按 id 删除
+            await this.deleteWhereIdIn([...batch.deleteIds, ...batch.upserts.map(r => r.id)]);
+
+            if (batch.upserts.length > 0) {
+                await this.table.add(batch.upserts.map(r => this.toRow(r)));
+            }
+
+            if (this.parentTable && batch.parentFiles?.length) {
+                await this.parentTable.delete(
+                    `file_path IN (${batch.parentFiles.map(p => this.quote(p)).join(", ")})`
+                );
+            }
+            if (this.parentTable && batch.parents?.length) {
+                await this.parentTable.add(batch.parents.map(p => ({ ...p, metadata: JSON.stringify(p.metadata) })));
+            }
+
+            this.logger.debug(
+                `批量提交: 清空 ${batch.deleteFiles.length} 个文件, ` +
+                `删除 ${batch.deleteIds.length} 条, 写入 ${batch.upserts.length} 条, ` +
+                `父级分块 ${batch.parents?.length ?? 0} 条`
+            );
+        } catch (e) {
+            throw new StorageError(
+                `批量写入失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
+    // ─── renamePath() ───
+
+    async renamePath(oldPath: string, newPath: string): Promise<number> {
+        if (!this.table) return 0;
+
+        try {
+            const moved = await this.movePath(oldPath, newPath);
+            this.logger.debug(`路径改写: ${oldPath} → ${newPath} (${moved} 条记录)`);
+            return moved;
+        } catch (e) {
+            throw new StorageError(
+                `向量记录路径改写失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
     // ─── delete() ───
 
     async delete(filePath: string): Promise<void> {
         if (!this.table) return;
 
         try {
-            const escapedPath = filePath.replace(/'/g, "\\'");
-            await this.table.delete(`file_path = '${escapedPath}'`);
+            await this.table.delete(`file_path = ${this.quote(filePath)}`);
+            await this.parentTable?.delete(`file_path = ${this.quote(filePath)}`);
             this.logger.debug(`已删除文件索引: ${filePath}`);
         } catch (e) {
             throw new StorageError(
@@ -174,37 +353,40 @@ export class LanceAdapter implements IVectorStore {
     async search(
         vector: number[],
         topK: number,
-        minScore = 0
+        minScore = 0,
+        filter?: VectorSearchFilter
     ): Promise<SearchResult[]> {
         if (!this.table) return [];
+        this.assertDimensions([vector]);
 
         try {
-            const rawResults = await this.table
+            let query = this.table
                 .search(vector)
-                .distanceType("cosine")
-                .limit(topK)
-                .toArray();
+                .distanceType("cosine");
+            const where = this.toWhere(filter);
+            if (where) query = query.where(where);
+            const rawResults = await query.limit(topK).toArray();
 
             const results: SearchResult[] = rawResults
                 .map((row) => {
                     // cosine distance → similarity score
                     // cosine distance = 1 - cosine_similarity
                     const score = 1 - (row._distance ?? 1);
+                    const metadata: ChunkMetadata = typeof row.metadata === "string"
+                        ? JSON.parse(row.metadata)
+                        : row.metadata;
 
                     return {
                         chunk: {
                             index: row.chunk_index,
                             text: row.text,
                             vectorId: row.id,
-                            metadata: typeof row.metadata === "string"
-                                ? JSON.parse(row.metadata)
-                                : row.metadata,
-                            // 这些字段在 VectorRecord 中可能没有直接存储（如 offset/line），
-                            // 如果需要，会在后续阶段完善存储结构
-                            offsetStart: 0,
-                            offsetEnd: 0,
-                            lineStart: 0,
-                            lineEnd: 0,
+                            metadata,
+                            // 旧版本写入的记录没有位置信息，回退为 0
+                            offsetStart: metadata.offset_start ?? 0,
+                            offsetEnd: metadata.offset_end ?? 0,
+                            lineStart: metadata.line_start ?? 0,
+                            lineEnd: metadata.line_end ?? 0,
                         } as BaizeChunk,
                         score,
                         distance: row._distance,
@@ -288,12 +470,217 @@ export class LanceAdapter implements IVectorStore {
         // LanceDB 嵌入式模式自动管理连接
         // 置空引用确保 GC 可以回收
         this.table = null;
+        this.parentTable = null;
         this.db = null;
         this.logger.info("LanceDB 连接已关闭");
     }
 
+    // ─── drop() ───
+
+    async drop(): Promise<void> {
+        if (!this.db) return;
+
+        try {
+            const tableNames = await this.db.tableNames();
+            for (const name of [this.tableName, this.parentTableName]) {
+                if (tableNames.includes(name)) {
+                    await this.db.dropTable(name);
+                }
+            }
+            this.table = null;
+            this.parentTable = null;
+            this.logger.info(`LanceDB 表已删除: ${this.tableName}`);
+        } catch (e) {
+            throw new StorageError(
+                `删除向量表失败: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    }
+
     // ─── 内部工具 ───
 
+    /**
+     * 校验已有表并为旧版本创建的表补齐新增列
+     * - 向量列维度与当前模型不一致时拒绝打开，避免混入不同模型的向量
+     * - content_hash 列用于分块级增量索引，旧记录填充空字符串（视为需要重新向量化）
+     * - properties 列用于属性过滤，旧记录填充空字符串（重新索引后写入）
+     * - tags、file_mtime 列用于标签与日期过滤，旧记录填充空值（重新索引后写入）
+     */
+    private async migrateSchema(): Promise<void> {
+        if (!this.table) return;
+
+        const schema = await this.table.schema();
+        const storedDimensions = schema.fields.find(f => f.name === "vector")?.type?.listSize;
+        if (storedDimensions !== undefined && storedDimensions !== this.dimensions) {
+            this.table = null;
+            throw new StorageError(
+                `索引 ${this.tableName} 的向量维度为 ${storedDimensions}，` +
+                `与模型 ${this.profile.modelId} (${this.dimensions} 维) 不一致`
+            );
+        }
+
+        const columns = new Set(schema.fields.map(f => f.name));
+        if (!columns.has("content_hash")) {
+            await this.table.addColumns([{ name: "content_hash", valueSql: "''" }]);
+            this.logger.info("LanceDB 表结构已升级: 新增 content_hash 列");
+        }
+        if (!columns.has("properties")) {
+            await this.table.addColumns([{ name: "properties", valueSql: "''" }]);
+            this.logger.info("LanceDB 表结构已升级: 新增 properties 列");
+        }
+        if (!columns.has("tags")) {
+            await this.table.addColumns([
+                { name: "tags", valueSql: "''" },
+                { name: "file_mtime", valueSql: "CAST(0 AS DOUBLE)" },
+            ]);
+            this.logger.info("LanceDB 表结构已升级: 新增 tags、file_mtime 列");
+        }
+    }
+
+    /** 拒绝维度与当前索引不一致的向量 */
+    private assertDimensions(vectors: number[][]): void {
+        const mismatch = vectors.find(v => v.length !== this.dimensions);
+        if (mismatch) {
+            throw new StorageError(
+                `向量维度 ${mismatch.length} 与索引 (${this.profile.modelId}, ${this.dimensions} 维) 不一致`
+            );
+        }
+    }
+
+    /** 序列化 metadata 为 JSON 字符串（LanceDB 不支持嵌套对象） */
+    private toRow(r: VectorRecord): Record<string, unknown> {
+        return {
+            id: r.id,
+            file_path: r.file_path,
+            chunk_index: r.chunk_index,
+            text: r.text,
+            content_hash: r.content_hash,
+            vector: r.vector,
+            metadata: JSON.stringify(r.metadata),
+            properties: this.encodeProperties(r.metadata),
+            tags: this.encodeTerms(tagTerms(r.metadata.tags)),
+            file_mtime: r.metadata.file_mtime ?? 0,
+            updated_at: r.updated_at,
+        };
+    }
+
+    private encodeProperties(metadata: ChunkMetadata): string {
+        return this.encodeTerms(propertyTerms(metadata.properties));
+    }
+
+    /**
+     * 过滤词列（properties、tags）的内容：每个过滤词一行，首尾各有一个换行符，
+     * 使 `strpos(properties, '\n属性名=值\n')` 只匹配完整的过滤词
+     */
+    private encodeTerms(terms: string[]): string {
+        return terms.length > 0 ? `\n${terms.join("\n")}\n` : "";
+    }
+
+    /**
+     * 将过滤条件转为 where 子句（与 matchesFilter 语义一致），无条件时返回 null
+     * 路径按 lower() 后的文件夹前缀匹配（即该文件或以 `文件夹/` 开头），短语按 lower() 后的子串匹配
+     */
+    private toWhere(filter: VectorSearchFilter | undefined): string | null {
+        if (!filter) return null;
+
+        const term = (column: string, value: string) => `strpos(${column}, ${this.quote(`\n${value}\n`)})`;
+        const contains = (column: string, value: string) => `strpos(lower(${column}), ${this.quote(value.toLowerCase())})`;
+
+        const inScope = (scope: string) =>
+            `(lower(file_path) = ${this.quote(scope)} OR strpos(lower(file_path), ${this.quote(`${scope}/`)}) = 1)`;
+
+        const clauses = (filter.properties ?? []).map(c => `${term("properties", propertyTerm(c.key, c.value))} > 0`);
+        const paths = (filter.paths ?? []).map(normalizePathScope);
+        if (paths.length > 0 && !paths.includes("")) {
+            clauses.push(`(${paths.map(inScope).join(" OR ")})`);
+        }
+        for (const p of (filter.excludePaths ?? []).map(normalizePathScope).filter(Boolean)) {
+            clauses.push(`NOT ${inScope(p)}`);
+        }
+        for (const t of filter.tags ?? []) clauses.push(`${term("tags", normalizeTag(t))} > 0`);
+        for (const t of filter.excludeTags ?? []) clauses.push(`${term("tags", normalizeTag(t))} = 0`);
+        if (filter.after !== undefined) clauses.push(`file_mtime >= ${filter.after}`);
+        if (filter.before !== undefined) clauses.push(`file_mtime < ${filter.before}`);
+        for (const phrase of filter.phrases ?? []) clauses.push(`${contains("text", phrase)} > 0`);
+
+        return clauses.length > 0 ? clauses.join(" AND ") : null;
+    }
+
+    /**
+     * 原地改写文件路径与 id 前缀（id 格式为 `路径::序号`，父级分块为 `路径::p序号`）
+     * substr 按字符计数，因此前缀长度按码点计算
+     * @returns 改写的向量记录数
+     */
+    private async movePath(oldPath: string, newPath: string): Promise<number> {
+        if (!this.table || oldPath === newPath) return 0;
+
+        const update = {
+            where: `file_path = ${this.quote(oldPath)}`,
+            valuesSql: {
+                id: `concat(${this.quote(newPath + "::")}, substr(id, ${[...oldPath].length + 3}))`,
+                file_path: this.quote(newPath),
+            },
+        };
+        await this.table.delete(`file_path = ${this.quote(newPath)}`);
+        const result = await this.table.update(update);
+        if (this.parentTable) {
+            await this.parentTable.delete(`file_path = ${this.quote(newPath)}`);
+            await this.parentTable.update(update);
+        }
+        return result.rowsUpdated;
+    }
+
+    /** 父级分块表名 */
+    private get parentTableName(): string {
+        return `${this.tableName}_parents`;
+    }
+
+    /** 打开父级分块表，不存在时（新索引或旧版本创建的索引）创建 */
+    private async openParentTable(tableNames: string[]): Promise<LanceTable> {
+        if (!this.db) throw new StorageError("LanceDB 未连接");
+        if (tableNames.includes(this.parentTableName)) {
+            return this.db.openTable(this.parentTableName);
+        }
+
+        const table = await this.db.createTable(this.parentTableName, [{
+            id: "__seed__",
+            file_path: "",
+            text: "",
+            metadata: "{}",
+            updated_at: new Date().toISOString(),
+        }]);
+        await table.delete('id = "__seed__"');
+        return table;
+    }
+
+    /** 将查询结果行还原为 VectorRecord */
+    private fromRow(row: Record<string, unknown>): VectorRecord {
+        return {
+            id: row.id as string,
+            file_path: row.file_path as string,
+            chunk_index: row.chunk_index as number,
+            text: row.text as string,
+            content_hash: (row.content_hash as string) ?? "",
+            // Arrow 向量列返回的是类数组对象，需转换为普通数组
+            vector: Array.from(row.vector as ArrayLike<number>),
+            metadata: typeof row.metadata === "string"
+                ? JSON.parse(row.metadata)
+                : row.metadata,
+            updated_at: row.updated_at as string,
+        } as VectorRecord;
+    }
+
+    /** 按 id 批量删除记录 */
+    private async deleteWhereIdIn(ids: string[]): Promise<void> {
+        if (!this.table || ids.length === 0) return;
+        await this.table.delete(`id IN (${ids.map(id => this.quote(id)).join(", ")})`);
+    }
+
+    /** 将字符串转为 SQL 字面量 */
+    private quote(value: string): string {
+        return `'${value.replace(/'/g, "''")}'`;
+    }
+
     /**
      * 创建种子记录用于定义表 schema
      * 初始化后立即删除
@@ -304,8 +691,12 @@ export class LanceAdapter implements IVectorStore {
             file_path: "",
             chunk_index: 0,
             text: "",
+            content_hash: "",
             vector: new Array(this.dimensions).fill(0),
             metadata: "{}",
+            properties: "",
+            tags: "",
+            file_mtime: 0,
             updated_at: new Date().toISOString(),
         };
     }
@@ -19,6 +19,9 @@ export interface VectorRecord {
     /** 分块原文 */
     text: string;
 
+    /** 向量化文本（上下文标题 + 分块原文）的内容哈希（用于增量索引时判断分块是否变化） */
+    content_hash: string;
+
     /** 嵌入向量（维度取决于模型，MiniLM = 384） */
     vector: number[];
 
@@ -45,8 +48,148 @@ export interface ChunkMetadata {
 
     /** 文件最后修改时间（毫秒时间戳） */
     file_mtime: number;
+
+    /** 分块在源文件中的字符起止偏移量 */
+    offset_start?: number;
+    offset_end?: number;
+
+    /** 分块在源文件中的起止行号 (1-indexed) */
+    line_start?: number;
+    line_end?: number;
+
+    /** PDF 页码 (1-indexed)，仅 PDF 文件 */
+    page?: number;
+
+    /** Canvas 节点 ID，仅 Canvas 文件 */
+    node_id?: string;
+
+    /** 父级分块 id（分块所在的完整标题章节，见 ParentRecord），分块即整个章节时省略 */
+    parent_id?: string;
+
+    /** 分块包含的块 ID（不含 ^），按出现顺序，用于 `笔记#^块ID` 跳转 */
+    block_ids?: string[];
+
+    /** 分块中展开的嵌入来源，如 ["笔记.md#标题"] */
+    embeds?: string[];
+
+    /** 分块的块类型：只含一种块时为该类型（如 table、code），多种块混合时为 mixed */
+    block_type?: "heading" | "paragraph" | "code" | "math" | "table" | "list" | "callout" | "quote" | "mixed";
+
+    /** 向量化时加在分块原文之前的上下文标题（笔记标题、标题路径、属性与标签），未开启时省略 */
+    context_header?: string;
+
+    /** 笔记属性：frontmatter 与 Dataview 行内字段（同名合并为列表），无属性时省略 */
+    properties?: Record<string, PropertyValue>;
+
+    /** 生成分块的策略与分块器版本，如 "hybrid@4" */
+    chunker?: string;
+}
+
+/**
+ * 父级分块记录
+ * 子分块（向量化的分块）所在的完整标题章节，不向量化；
+ * 检索时按子分块匹配，再取父级分块向 LLM 提供分块前后的上下文
+ */
+export interface ParentRecord {
+    /** 唯一标识：`${file_path}::p${序号}` */
+    id: string;
+
+    /** 源文件路径（相对于 Vault 根） */
+    file_path: string;
+
+    /** 章节原文 */
+    text: string;
+
+    /** 章节的位置与标题路径 */
+    metadata: ParentMetadata;
+
+    /** 最后更新时间（ISO 8601 字符串） */
+    updated_at: string;
+}
+
+/** 父级分块元数据 */
+export type ParentMetadata = Pick<
+    ChunkMetadata,
+    "title" | "headings" | "offset_start" | "offset_end" | "line_start" | "line_end" | "page" | "node_id"
+>;
+
+/** 属性的单个值 */
+export type PropertyScalar = string | number | boolean;
+
+/** 属性值（列表属性为数组） */
+export type PropertyValue = PropertyScalar | PropertyScalar[];
+
+/** 属性条件：属性等于该值（列表属性包含该值） */
+export interface PropertyCondition {
+    key: string;
+    value: PropertyScalar;
+}
+
+/** 向量搜索的过滤条件（各项之间为 AND，可由搜索语法解析得到，见 query-parser） */
+export interface VectorSearchFilter {
+    /** 属性条件，全部满足才匹配 */
+    properties?: PropertyCondition[];
+
+    /** 位于其中任一文件夹下，或即该文件（不区分大小写） */
+    paths?: string[];
+
+    /** 不位于其中任何文件夹下 */
+    excludePaths?: string[];
+
+    /** 含全部标签（不带 #，父标签匹配子标签） */
+    tags?: string[];
+
+    /** 不含其中任何标签 */
+    excludeTags?: string[];
+
+    /** 文件修改时间下限（毫秒时间戳，含） */
+    after?: number;
+
+    /** 文件修改时间上限（毫秒时间戳，不含） */
+    before?: number;
+
+    /** 分块原文包含全部短语（不区分大小写） */
+    phrases?: string[];
+}
+
+/**
+ * 批量写入（多个文件的变更合并为一次提交）
+ * 执行顺序：删除文件的全部记录 → 重命名 → 按 id 删除 → 写入新记录 → 替换父级分块
+ */
+export interface VectorWriteBatch {
+    /** 需要清空全部记录的文件 */
+    deleteFiles: string[];
+
+    /** 需要改写路径的文件：[原路径, 新路径]（同 renamePath） */
+    renames?: [string, string][];
+
+    /** 需要删除的记录 id */
+    deleteIds: string[];
+
+    /** 需要写入（插入或覆盖）的记录 */
+    upserts: VectorRecord[];
+
+    /** 需要替换父级分块的文件：清空其全部父级分块后写入 parents 中的记录 */
+    parentFiles?: string[];
+
+    /** 需要写入的父级分块 */
+    parents?: ParentRecord[];
 }
 
+/**
+ * 向量索引的 Embedding 配置
+ * 同一索引内的所有向量必须由同一配置生成，否则相似度没有意义
+ */
+export interface EmbeddingProfile {
+    /** 生成向量的 Embedding 模型 ID */
+    modelId: string;
+
+    /** 向量维度 */
+    dimensions: number;
+
+    /** 向量是否经过 L2 归一化 */
+    normalized: boolean;
+}
 
 /** 索引统计信息 */
 export interface IndexStats {
@@ -76,4 +219,24 @@ export const MODEL_DIMENSIONS: Record<string, number> = {
     "Xenova/bge-small-en-v1.5": 384,
     "Xenova/bge-base-en-v1.5": 768,
     "Xenova/multilingual-e5-small": 384,
+    "Xenova/bge-small-zh-v1.5": 512,
+    "Xenova/bge-base-zh-v1.5": 768,
+    "Xenova/paraphrase-multilingual-MiniLM-L12-v2": 384,
+    "Xenova/nomic-embed-text-v1.5": 768,
+};
+
+/**
+ * 模型的最大输入长度（Token 数，模型名 → 长度）
+ * 取 sentence-transformers 训练时的 max_seq_length，超出部分被截断或效果明显下降
+ */
+export const MODEL_MAX_TOKENS: Record<string, number> = {
+    "Xenova/all-MiniLM-L6-v2": 256,
+    "Xenova/all-MiniLM-L12-v2": 128,
+    "Xenova/bge-small-en-v1.5": 512,
+    "Xenova/bge-base-en-v1.5": 512,
+    "Xenova/multilingual-e5-small": 512,
+    "Xenova/bge-small-zh-v1.5": 512,
+    "Xenova/bge-base-zh-v1.5": 512,
+    "Xenova/paraphrase-multilingual-MiniLM-L12-v2": 128,
+    "Xenova/nomic-embed-text-v1.5": 8192,
 };
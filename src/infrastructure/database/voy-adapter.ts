@@ -7,6 +7,9 @@
  * - Voy 是一个轻量级、用 Rust 编写并编译为 WASM 的向量搜索引擎
  * - 数据持久化通过 Obsidian 的 Vault Adapter 实现（序列化为 JSON 存储）
  * - 适用于移动端（Android/iOS），无需 native binding
+ * - 索引文件中记录生成向量的 EmbeddingProfile，与当前模型不一致时拒绝加载
+ * - 父级分块不向量化，只保存在内存映射中并与记录一起持久化
+ * - Voy 不支持过滤，带过滤条件的搜索在内存记录中筛选后逐条计算相似度
  */
 // @ts-ignore
 import voyWasmBinary from "voy-search/voy_search_bg.wasm";
@@ -15,11 +18,19 @@ import * as voyModule from "voy-search/voy_search_bg.js";
 const { Voy, __wbg_set_wasm } = voyModule as any;
 
 import type { IVectorStore } from "../../domain/interfaces/vector-store";
-import type { VectorRecord, IndexStats } from "./schema";
+import type {
+    VectorRecord,
+    IndexStats,
+    EmbeddingProfile,
+    VectorWriteBatch,
+    VectorSearchFilter,
+    ParentRecord,
+} from "./schema";
 import type { SearchResult } from "../../domain/models/search-result";
 import type { BaizeChunk } from "../../domain/models/baize-chunk";
 import type { Logger } from "../../shared/logger";
 import { StorageError } from "../../shared/errors";
+import { isEmptyFilter, matchesFilter } from "../../domain/filters/search-filter";
 import type { App } from "obsidian";
 
 export class VoyAdapter implements IVectorStore {
@@ -27,17 +38,26 @@ export class VoyAdapter implements IVectorStore {
     private logger: Logger;
     private app: App;
     private storagePath: string;
+    private profile: EmbeddingProfile;
     private dimensions: number;
 
     // 内存中缓存原始记录，因为 Voy search 只返回 id, title, url
     // 我们需要完整的 VectorRecord 来返回给 UI
     private recordsMap: Map<string, VectorRecord> = new Map();
 
-    constructor(app: App, logger: Logger, storagePath: string, dimensions = 384) {
+    /** 父级分块（id → 记录） */
+    private parentsMap: Map<string, ParentRecord> = new Map();
+
+    constructor(app: App, logger: Logger, storagePath: string, profile: EmbeddingProfile) {
         this.app = app;
         this.logger = logger;
         this.storagePath = storagePath;
-        this.dimensions = dimensions;
+        this.profile = profile;
+        this.dimensions = profile.dimensions;
+    }
+
+    getProfile(): EmbeddingProfile {
+        return this.profile;
     }
 
     async init(): Promise<void> {
@@ -68,6 +88,15 @@ export class VoyAdapter implements IVectorStore {
                 const data = await adapter.read(this.storagePath);
                 const parsed = JSON.parse(data);
 
+                // 旧版本的索引文件没有 profile，视为由当前配置生成
+                const stored: EmbeddingProfile | undefined = parsed.profile;
+                if (stored && (stored.modelId !== this.profile.modelId || stored.dimensions !== this.dimensions)) {
+                    throw new StorageError(
+                        `索引文件由 ${stored.modelId} (${stored.dimensions} 维) 生成，` +
+                        `与当前模型 ${this.profile.modelId} (${this.dimensions} 维) 不一致`
+                    );
+                }
+
                 // Voy.deserialize 是静态方法
                 if (parsed.voyData) {
                     this.voy = Voy.deserialize(parsed.voyData);
@@ -79,6 +108,9 @@ export class VoyAdapter implements IVectorStore {
                 if (parsed.records) {
                     this.recordsMap = new Map(Object.entries(parsed.records));
                 }
+                if (parsed.parents) {
+                    this.parentsMap = new Map(Object.entries(parsed.parents));
+                }
                 this.logger.info(`Voy 已从本地下载加载: ${this.recordsMap.size} 条记录`);
             } else {
                 this.voy = new Voy();
@@ -93,6 +125,7 @@ export class VoyAdapter implements IVectorStore {
 
     async upsert(records: VectorRecord[]): Promise<void> {
         if (!this.voy || records.length === 0) return;
+        this.assertDimensions(records.map(r => r.vector));
 
         try {
             // 1. 先删除旧记录 (Voy 不需要显式 delete 如果 id 冲突，但为了保持一致性我们手动处理)
@@ -124,6 +157,111 @@ export class VoyAdapter implements IVectorStore {
         }
     }
 
+    async writeBatch(batch: VectorWriteBatch): Promise<void> {
+        if (!this.voy) return;
+        this.assertDimensions(batch.upserts.map(r => r.vector));
+
+        try {
+            const files = new Set(batch.deleteFiles);
+            const fileIds: string[] = [];
+            if (files.size > 0) {
+                for (const [id, record] of this.recordsMap.entries()) {
+                    if (files.has(record.file_path)) fileIds.push(id);
+                }
+            }
+            if (fileIds.length > 0) this.removeFromIndex(fileIds);
+            this.removeParents(files);
+
+            for (const [oldPath, newPath] of batch.renames ?? []) {
+                this.movePath(oldPath, newPath);
+            }
+
+            // 覆盖写入的记录同样先按 id 删除
+            const existing = [...batch.deleteIds, ...batch.upserts.map(r => r.id)]
+                .filter(id => this.recordsMap.has(id));
+            if (existing.length > 0) this.removeFromIndex(existing);
+
+            if (batch.upserts.length > 0) {
+                this.voy.add({
+                    embeddings: batch.upserts.map(r => ({
+                        id: r.id,
+                        title: r.text.substring(0, 100),
+                        url: r.file_path,
+                        embeddings: r.vector
+                    }))
+                });
+                for (const r of batch.upserts) {
+                    this.recordsMap.set(r.id, r);
+                }
+            }
+
+            this.removeParents(new Set(batch.parentFiles ?? []));
+            for (const p of batch.parents ?? []) {
+                this.parentsMap.set(p.id, p);
+            }
+
+            // 整组变更只持久化一次
+            await this.persist();
+            this.logger.debug(
+                `Voy 批量提交: 删除 ${fileIds.length + existing.length} 条, 写入 ${batch.upserts.length} 条`
+            );
+        } catch (e) {
+            throw new StorageError(`Voy 批量写入失败: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    async getByFile(filePath: string): Promise<VectorRecord[]> {
+        return Array.from(this.recordsMap.values())
+            .filter(r => r.file_path === filePath)
+            .map(r => ({ ...r, content_hash: r.content_hash ?? "" }))
+            .sort((a, b) => a.chunk_index - b.chunk_index);
+    }
+
+    async getAll(): Promise<VectorRecord[]> {
+        return Array.from(this.recordsMap.values());
+    }
+
+    async getByIds(ids: string[]): Promise<VectorRecord[]> {
+        return ids
+            .map(id => this.recordsMap.get(id))
+            .filter((r): r is VectorRecord => r !== undefined)
+            .map(r => ({ ...r, content_hash: r.content_hash ?? "" }));
+    }
+
+    async getParents(ids: string[]): Promise<ParentRecord[]> {
+        return ids
+            .map(id => this.parentsMap.get(id))
+            .filter((p): p is ParentRecord => p !== undefined);
+    }
+
+    async renamePath(oldPath: string, newPath: string): Promise<number> {
+        if (!this.voy) return 0;
+
+        try {
+            const moved = this.movePath(oldPath, newPath);
+            if (moved > 0) await this.persist();
+            this.logger.debug(`Voy 路径改写: ${oldPath} → ${newPath} (${moved} 条记录)`);
+            return moved;
+        } catch (e) {
+            throw new StorageError(`Voy 路径改写失败: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    async deleteByIds(ids: string[]): Promise<void> {
+        if (!this.voy) return;
+
+        const idsToRemove = ids.filter(id => this.recordsMap.has(id));
+        if (idsToRemove.length === 0) return;
+
+        try {
+            this.removeFromIndex(idsToRemove);
+            await this.persist();
+            this.logger.debug(`Voy 已删除 ${idsToRemove.length} 条记录`);
+        } catch (e) {
+            throw new StorageError(`Voy 删除失败: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
     async delete(filePath: string): Promise<void> {
         if (!this.voy) return;
 
@@ -136,17 +274,10 @@ export class VoyAdapter implements IVectorStore {
                 }
             }
 
-            if (idsToRemove.length === 0) return;
+            const parentCount = this.removeParents(new Set([filePath]));
+            if (idsToRemove.length === 0 && parentCount === 0) return;
 
-            // 从 Voy 中删除
-            this.voy.remove({
-                embeddings: idsToRemove.map(id => ({ id, title: "", url: "", embeddings: [] }))
-            });
-
-            // 从映射中删除
-            for (const id of idsToRemove) {
-                this.recordsMap.delete(id);
-            }
+            if (idsToRemove.length > 0) this.removeFromIndex(idsToRemove);
 
             await this.persist();
             this.logger.debug(`Voy 已删除文件索引: ${filePath} (${idsToRemove.length} 条记录)`);
@@ -155,8 +286,13 @@ export class VoyAdapter implements IVectorStore {
         }
     }
 
-    async search(vector: number[], topK: number, minScore = 0): Promise<SearchResult[]> {
+    async search(vector: number[], topK: number, minScore = 0, filter?: VectorSearchFilter): Promise<SearchResult[]> {
         if (!this.voy) return [];
+        this.assertDimensions([vector]);
+
+        if (filter && !isEmptyFilter(filter)) {
+            return this.searchFiltered(vector, topK, minScore, filter);
+        }
 
         try {
             // Voy.search 接收 Float32Array
@@ -178,20 +314,7 @@ export class VoyAdapter implements IVectorStore {
                 const score = this.calculateCosineSimilarity(vector, record.vector);
 
                 if (score >= minScore) {
-                    searchResults.push({
-                        chunk: {
-                            index: record.chunk_index,
-                            text: record.text,
-                            vectorId: record.id,
-                            metadata: record.metadata,
-                            offsetStart: 0,
-                            offsetEnd: 0,
-                            lineStart: 0,
-                            lineEnd: 0,
-                        } as BaizeChunk,
-                        score: score,
-                        distance: 1 - score, // 相似度分数为 0.9 则距离为 0.1
-                    });
+                    searchResults.push(this.toResult(record, score));
                 }
             }
 
@@ -218,6 +341,104 @@ export class VoyAdapter implements IVectorStore {
         await this.persist();
         this.voy = null;
         this.recordsMap.clear();
+        this.parentsMap.clear();
+    }
+
+    async drop(): Promise<void> {
+        this.voy = null;
+        this.recordsMap.clear();
+        this.parentsMap.clear();
+        try {
+            if (await this.app.vault.adapter.exists(this.storagePath)) {
+                await this.app.vault.adapter.remove(this.storagePath);
+            }
+            this.logger.info(`Voy 索引文件已删除: ${this.storagePath}`);
+        } catch (e) {
+            throw new StorageError(`Voy 索引删除失败: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    /** 拒绝维度与当前索引不一致的向量 */
+    private assertDimensions(vectors: number[][]): void {
+        const mismatch = vectors.find(v => v.length !== this.dimensions);
+        if (mismatch) {
+            throw new StorageError(
+                `向量维度 ${mismatch.length} 与索引 (${this.profile.modelId}, ${this.dimensions} 维) 不一致`
+            );
+        }
+    }
+
+    /**
+     * 改写文件路径与 id 前缀（id 格式为 `路径::序号`），复用原有向量重新加入 Voy 索引
+     * 父级分块（id 格式为 `路径::p序号`）一并改写
+     * @returns 改写的向量记录数
+     */
+    private movePath(oldPath: string, newPath: string): number {
+        if (oldPath === newPath) return 0;
+        const prefix = `${oldPath}::`;
+
+        const parents = [...this.parentsMap.values()].filter(p => p.file_path === oldPath);
+        if (parents.length > 0) {
+            this.removeParents(new Set([oldPath, newPath]));
+            for (const p of parents) {
+                const id = `${newPath}::${p.id.slice(prefix.length)}`;
+                this.parentsMap.set(id, { ...p, id, file_path: newPath });
+            }
+        }
+
+        const moving: VectorRecord[] = [];
+        const replaced: string[] = [];
+        for (const [id, record] of this.recordsMap.entries()) {
+            if (record.file_path === oldPath) moving.push(record);
+            else if (record.file_path === newPath) replaced.push(id);
+        }
+        if (moving.length === 0) return 0;
+
+        const moved = moving.map(r => ({
+            ...r,
+            id: r.id.startsWith(prefix) ? `${newPath}::${r.id.slice(prefix.length)}` : `${newPath}::${r.chunk_index}`,
+            file_path: newPath,
+        }));
+
+        this.removeFromIndex([...replaced, ...moving.map(r => r.id)]);
+        this.voy.add({
+            embeddings: moved.map(r => ({
+                id: r.id,
+                title: r.text.substring(0, 100),
+                url: r.file_path,
+                embeddings: r.vector
+            }))
+        });
+        for (const r of moved) {
+            this.recordsMap.set(r.id, r);
+        }
+        return moved.length;
+    }
+
+    /**
+     * 移除指定文件的全部父级分块
+     * @returns 移除的父级分块数
+     */
+    private removeParents(files: Set<string>): number {
+        if (files.size === 0) return 0;
+        let removed = 0;
+        for (const [id, parent] of this.parentsMap.entries()) {
+            if (files.has(parent.file_path)) {
+                this.parentsMap.delete(id);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /** 从 Voy 索引与内存映射中移除指定记录 */
+    private removeFromIndex(ids: string[]): void {
+        this.voy.remove({
+            embeddings: ids.map(id => ({ id, title: "", url: "", embeddings: [] }))
+        });
+        for (const id of ids) {
+            this.recordsMap.delete(id);
+        }
     }
 
     private async persist(): Promise<void> {
@@ -225,13 +446,43 @@ export class VoyAdapter implements IVectorStore {
         try {
             const voyData = this.voy.serialize();
             const records = Object.fromEntries(this.recordsMap);
-            const data = JSON.stringify({ voyData, records });
+            const parents = Object.fromEntries(this.parentsMap);
+            const data = JSON.stringify({ profile: this.profile, voyData, records, parents });
             await this.app.vault.adapter.write(this.storagePath, data);
         } catch (e) {
             this.logger.error("Voy 持久化失败", e);
         }
     }
 
+    /** 先按过滤条件筛选记录，再逐条计算相似度取 Top-K */
+    private searchFiltered(vector: number[], topK: number, minScore: number, filter: VectorSearchFilter): SearchResult[] {
+        const results: SearchResult[] = [];
+        for (const record of this.recordsMap.values()) {
+            if (!matchesFilter(record, filter)) continue;
+            const score = this.calculateCosineSimilarity(vector, record.vector);
+            if (score >= minScore) results.push(this.toResult(record, score));
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
+
+    /** 将记录转为搜索结果 */
+    private toResult(record: VectorRecord, score: number): SearchResult {
+        return {
+            chunk: {
+                index: record.chunk_index,
+                text: record.text,
+                vectorId: record.id,
+                metadata: record.metadata,
+                offsetStart: record.metadata.offset_start ?? 0,
+                offsetEnd: record.metadata.offset_end ?? 0,
+                lineStart: record.metadata.line_start ?? 0,
+                lineEnd: record.metadata.line_end ?? 0,
+            } as BaizeChunk,
+            score: score,
+            distance: 1 - score, // 相似度分数为 0.9 则距离为 0.1
+        };
+    }
+
     private calculateCosineSimilarity(v1: number[], v2: number[]): number {
         let dotProduct = 0;
         let mag1 = 0;
@@ -0,0 +1,68 @@
+/**
+ * 白泽 Baize - Canvas 提取器
+ * 
+ * 每个文本节点作为一个段落，记录节点 ID 以便搜索结果定位；
+ * 包含该节点的分组名依次作为标题路径
+ */
+import type { App, TFile } from "obsidian";
+import type { ExtractedDocument, ExtractedSection, IDocumentExtractor } from "../../domain/interfaces/document-extractor";
+
+/** JSON Canvas 节点（只列出用到的字段） */
+interface CanvasNode {
+    id: string;
+    type: "text" | "file" | "link" | "group";
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    text?: string;
+    label?: string;
+}
+
+interface CanvasData {
+    nodes?: CanvasNode[];
+}
+
+export class CanvasExtractor implements IDocumentExtractor {
+    readonly extensions = ["canvas"];
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async extract(file: TFile): Promise<ExtractedDocument> {
+        const raw = await this.app.vault.read(file);
+        if (!raw.trim()) return { sections: [] };
+
+        const data = JSON.parse(raw) as CanvasData;
+        const nodes = data.nodes ?? [];
+
+        // 外层分组在前，便于生成由外到内的标题路径
+        const groups = nodes
+            .filter(n => n.type === "group" && n.label)
+            .sort((a, b) => b.width * b.height - a.width * a.height);
+
+        // 按画布上的阅读顺序（自上而下、自左而右）输出
+        const sections: ExtractedSection[] = nodes
+            .filter(n => n.type === "text" && n.text?.trim())
+            .sort((a, b) => a.y - b.y || a.x - b.x)
+            .map(node => ({
+                text: node.text!,
+                nodeId: node.id,
+                headings: groups
+                    .filter(g => contains(g, node))
+                    .map(g => `# ${g.label}`),
+            }));
+
+        return { sections };
+    }
+}
+
+/** 判断节点是否位于分组范围内 */
+function contains(group: CanvasNode, node: CanvasNode): boolean {
+    return node.x >= group.x &&
+        node.y >= group.y &&
+        node.x + node.width <= group.x + group.width &&
+        node.y + node.height <= group.y + group.height;
+}
@@ -0,0 +1,98 @@
+/**
+ * 白泽 Baize - 嵌入解析器
+ * 
+ * 找出 Markdown 正文中的 ![[笔记]]、![[笔记#标题]]、![[笔记#^块]]，
+ * 读取被嵌入的内容并递归展开其中的嵌入：
+ * - 循环嵌入（A 嵌入 B，B 又嵌入 A）与超过最大深度的嵌入保留原语法
+ * - 只展开 Markdown 笔记，图片、PDF 等附件保留原语法
+ * - 被嵌入内容中的标题转为普通文本，分块的标题路径仍以宿主笔记为准
+ */
+import { parseLinktext, resolveSubpath } from "obsidian";
+import type { App } from "obsidian";
+import type { EmbedSpan } from "../../domain/interfaces/document-extractor";
+import { MAX_EMBED_DEPTH, expandEmbeds } from "../../domain/chunking/embed-expansion";
+
+/** 嵌入语法 ![[目标]] 或 ![[目标|别名]] */
+const EMBED_PATTERN = /!\[\[([^[\]\n]+?)\]\]/g;
+
+/** 围栏代码块与行内代码（其中的嵌入语法不展开） */
+const CODE_PATTERN = /^(```|~~~)[\s\S]*?^\1|`[^`\n]+`/gm;
+
+/** 块引用标记 ^block-id */
+const BLOCK_ID_PATTERN = /\s\^[\w-]+$/gm;
+
+export class EmbedResolver {
+    private app: App;
+    private maxDepth: number;
+
+    constructor(app: App, maxDepth = MAX_EMBED_DEPTH) {
+        this.app = app;
+        this.maxDepth = maxDepth;
+    }
+
+    /**
+     * 解析宿主笔记正文中的嵌入
+     * @param text - 宿主笔记正文
+     * @param sourcePath - 宿主笔记路径（用于解析相对链接与检测循环）
+     */
+    async resolve(text: string, sourcePath: string): Promise<EmbedSpan[]> {
+        return this.resolveIn(text, sourcePath, [sourcePath], 1);
+    }
+
+    /**
+     * @param stack - 当前展开链上的嵌入来源（检测循环）
+     * @param depth - 本层嵌入的嵌套深度
+     */
+    private async resolveIn(text: string, sourcePath: string, stack: string[], depth: number): Promise<EmbedSpan[]> {
+        if (depth > this.maxDepth) return [];
+
+        const code: [number, number][] = [];
+        for (const match of text.matchAll(CODE_PATTERN)) {
+            code.push([match.index, match.index + match[0].length]);
+        }
+
+        const spans: EmbedSpan[] = [];
+        for (const match of text.matchAll(EMBED_PATTERN)) {
+            const start = match.index;
+            if (code.some(([s, e]) => start >= s && start < e)) continue;
+
+            const embedded = await this.load(match[1], sourcePath, stack, depth);
+            if (embedded) spans.push({ start, end: start + match[0].length, ...embedded });
+        }
+        return spans;
+    }
+
+    /** 读取一处嵌入的正文，无法或不应展开时返回 null */
+    private async load(
+        linktext: string,
+        sourcePath: string,
+        stack: string[],
+        depth: number
+    ): Promise<Pick<EmbedSpan, "source" | "text"> | null> {
+        const { path, subpath } = parseLinktext(linktext.split("|")[0].trim());
+        const file = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+        if (!file || file.extension !== "md") return null;
+
+        const source = file.path + subpath;
+        if (stack.includes(source)) return null;
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const content = await this.app.vault.cachedRead(file);
+        let text: string;
+        if (subpath) {
+            const resolved = cache ? resolveSubpath(cache, subpath) : null;
+            if (!resolved || resolved.type === "footnote") return null;
+            text = content.slice(resolved.start.offset, resolved.end?.offset ?? content.length);
+        } else {
+            text = content.slice(cache?.frontmatterPosition?.end.offset ?? 0);
+        }
+
+        const nested = await this.resolveIn(text, file.path, [...stack, source], depth + 1);
+        text = expandEmbeds(text, nested).text
+            .replace(/^#{1,6}\s+/gm, "")
+            .replace(BLOCK_ID_PATTERN, "")
+            .trim();
+
+        return text ? { source, text } : null;
+    }
+}
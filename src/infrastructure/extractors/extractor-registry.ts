@@ -0,0 +1,49 @@
+/**
+ * 白泽 Baize - 文档提取器注册表
+ * 
+ * 按扩展名查找对应的提取器，SyncService 与 IndexScheduler
+ * 据此判断哪些文件需要索引
+ */
+import type { App } from "obsidian";
+import type { IDocumentExtractor } from "../../domain/interfaces/document-extractor";
+import { MarkdownExtractor } from "./markdown-extractor";
+import type { MarkdownExtractorOptions } from "./markdown-extractor";
+import { PlainTextExtractor } from "./plain-text-extractor";
+import { CanvasExtractor } from "./canvas-extractor";
+import { PdfExtractor } from "./pdf-extractor";
+
+export class ExtractorRegistry {
+    private extractors: Map<string, IDocumentExtractor> = new Map();
+
+    /** 注册提取器（同一扩展名后注册的覆盖先注册的） */
+    register(extractor: IDocumentExtractor): void {
+        for (const ext of extractor.extensions) {
+            this.extractors.set(ext.toLowerCase(), extractor);
+        }
+    }
+
+    /** 获取扩展名对应的提取器 */
+    get(extension: string): IDocumentExtractor | undefined {
+        return this.extractors.get(extension.toLowerCase());
+    }
+
+    /** 是否支持该扩展名 */
+    supports(extension: string): boolean {
+        return this.extractors.has(extension.toLowerCase());
+    }
+
+    /** 所有已支持的扩展名 */
+    extensions(): string[] {
+        return [...this.extractors.keys()];
+    }
+
+    /** 创建包含内置提取器（md / txt / canvas / pdf）的注册表 */
+    static createDefault(app: App, markdown: MarkdownExtractorOptions = {}): ExtractorRegistry {
+        const registry = new ExtractorRegistry();
+        registry.register(new MarkdownExtractor(app, markdown));
+        registry.register(new PlainTextExtractor(app));
+        registry.register(new CanvasExtractor(app));
+        registry.register(new PdfExtractor(app));
+        return registry;
+    }
+}
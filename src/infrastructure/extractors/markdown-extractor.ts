@@ -0,0 +1,41 @@
+/**
+ * 白泽 Baize - Markdown 提取器
+ * 
+ * 原文整体作为一个段落交给 MarkdownChunker，
+ * 保持分块偏移量与行号对应源文件
+ * 
+ * 开启嵌入展开时同时解析正文中的 ![[...]]，由分块器展开到向量化文本中
+ */
+import type { App, TFile } from "obsidian";
+import type { ExtractedDocument, IDocumentExtractor } from "../../domain/interfaces/document-extractor";
+import { EmbedResolver } from "./embed-resolver";
+
+/** Markdown 提取器选项 */
+export interface MarkdownExtractorOptions {
+    /** 是否解析嵌入（每次提取时读取，设置变更后立即生效） */
+    resolveEmbeds?: () => boolean;
+}
+
+export class MarkdownExtractor implements IDocumentExtractor {
+    readonly extensions = ["md"];
+    private app: App;
+    private options: MarkdownExtractorOptions;
+    private embedResolver: EmbedResolver;
+
+    constructor(app: App, options: MarkdownExtractorOptions = {}) {
+        this.app = app;
+        this.options = options;
+        this.embedResolver = new EmbedResolver(app);
+    }
+
+    async extract(file: TFile): Promise<ExtractedDocument> {
+        const text = await this.app.vault.read(file);
+        const title = this.app.metadataCache.getFileCache(file)?.frontmatter?.title;
+        if (!this.options.resolveEmbeds?.()) {
+            return { sections: [{ text }], title };
+        }
+
+        const embeds = await this.embedResolver.resolve(text, file.path);
+        return { sections: [embeds.length > 0 ? { text, embeds } : { text }], title };
+    }
+}
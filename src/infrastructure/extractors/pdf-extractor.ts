@@ -0,0 +1,52 @@
+/**
+ * 白泽 Baize - PDF 提取器
+ * 
+ * 使用 Obsidian 内置的 PDF.js 提取文本层（不做 OCR），
+ * 每一页作为一个段落并记录页码
+ */
+import { loadPdfJs } from "obsidian";
+import type { App, TFile } from "obsidian";
+import type { ExtractedDocument, ExtractedSection, IDocumentExtractor } from "../../domain/interfaces/document-extractor";
+
+/** PDF.js 文本项（只列出用到的字段） */
+interface PdfTextItem {
+    str?: string;
+    hasEOL?: boolean;
+}
+
+export class PdfExtractor implements IDocumentExtractor {
+    readonly extensions = ["pdf"];
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async extract(file: TFile): Promise<ExtractedDocument> {
+        const pdfjs = await loadPdfJs();
+        const data = await this.app.vault.readBinary(file);
+        const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+        try {
+            const sections: ExtractedSection[] = [];
+            for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+                const page = await doc.getPage(pageNumber);
+                const content = await page.getTextContent();
+                const text = (content.items as PdfTextItem[])
+                    .map(item => (item.str ?? "") + (item.hasEOL ? "\n" : ""))
+                    .join("");
+                page.cleanup();
+
+                if (text.trim()) {
+                    sections.push({ text, page: pageNumber });
+                }
+            }
+
+            const metadata = await doc.getMetadata().catch(() => null);
+            const title = (metadata?.info as { Title?: string } | undefined)?.Title?.trim() || undefined;
+            return { sections, title };
+        } finally {
+            await doc.destroy();
+        }
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * 白泽 Baize - 纯文本提取器
+ */
+import type { App, TFile } from "obsidian";
+import type { ExtractedDocument, IDocumentExtractor } from "../../domain/interfaces/document-extractor";
+
+export class PlainTextExtractor implements IDocumentExtractor {
+    readonly extensions = ["txt"];
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async extract(file: TFile): Promise<ExtractedDocument> {
+        const text = await this.app.vault.read(file);
+        return { sections: [{ text }] };
+    }
+}
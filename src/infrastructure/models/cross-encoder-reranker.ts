@@ -0,0 +1,115 @@
+/**
+ * 白泽 Baize - 交叉编码器重排序
+ *
+ * 与 TransformersAdapter 相同，使用 @xenova/transformers (v2) 在主线程加载模型，
+ * 模型文件同样经浏览器缓存 (Cache API) 保存，只在首次使用时下载
+ *
+ * 查询与候选文本成对输入，取序列分类输出的 logit 作为相关度
+ */
+import type { IReranker } from "../../domain/interfaces/reranker";
+import type { Logger } from "../../shared/logger";
+
+export class CrossEncoderReranker implements IReranker {
+    private tokenizer: any = null;
+    private model: any = null;
+    private currentModel: string | null = null;
+    private loading: Promise<void> | null = null;
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * 加载模型（同一模型已加载时直接返回）
+     * 多次调用依次加载，最后一次调用的模型最终生效
+     */
+    async loadModel(
+        modelId: string,
+        options?: { quantized?: boolean; pluginResourcePath?: string }
+    ): Promise<void> {
+        while (this.loading) await this.loading.catch(() => undefined);
+        if (this.currentModel === modelId && this.model) return;
+
+        this.loading = this.doLoad(modelId, options);
+        try {
+            await this.loading;
+        } finally {
+            this.loading = null;
+        }
+    }
+
+    isReady(): boolean {
+        return this.model !== null;
+    }
+
+    /**
+     * 成对编码查询与候选文本，超出模型最大输入长度的部分被截断
+     */
+    async score(query: string, texts: string[]): Promise<number[]> {
+        if (!this.model || !this.tokenizer) {
+            throw new Error("Reranker not loaded. Call loadModel() first.");
+        }
+        if (texts.length === 0) return [];
+
+        const inputs = this.tokenizer(new Array(texts.length).fill(query), {
+            text_pair: texts,
+            padding: true,
+            truncation: true,
+        });
+        const { logits } = await this.model(inputs);
+
+        // 单输出模型直接取 logit；多标签模型取最后一列（"相关"类别）
+        const labels = logits.dims[1] ?? 1;
+        const data = logits.data as ArrayLike<number>;
+        return texts.map((_, i) => Number(data[i * labels + labels - 1]));
+    }
+
+    /** 卸载模型（正在加载时等加载结束后再卸载，避免加载完成的模型无人释放） */
+    async unloadModel(): Promise<void> {
+        while (this.loading) await this.loading.catch(() => undefined);
+        await this.model?.dispose?.();
+        this.model = null;
+        this.tokenizer = null;
+        this.currentModel = null;
+    }
+
+    private async doLoad(
+        modelId: string,
+        options?: { quantized?: boolean; pluginResourcePath?: string }
+    ): Promise<void> {
+        this.logger.info(`[Reranker] 正在加载重排序模型: ${modelId}...`);
+
+        try {
+            const transformers = await import("@xenova/transformers");
+            const env = transformers.env as any;
+
+            // 与 TransformersAdapter 相同的运行环境：禁用多线程，WASM 从插件目录加载
+            env.allowLocalModels = false;
+            env.useBrowserCache = true;
+            if (env.backends?.onnx?.wasm) {
+                env.backends.onnx.wasm.numThreads = 1;
+                env.backends.onnx.wasm.proxy = false;
+                if (options?.pluginResourcePath) {
+                    const cleanPath = options.pluginResourcePath.split("?")[0];
+                    env.backends.onnx.wasm.wasmPaths = cleanPath.endsWith("/") ? cleanPath : cleanPath + "/";
+                }
+            }
+
+            const quantized = options?.quantized ?? true;
+            const [tokenizer, model] = await Promise.all([
+                transformers.AutoTokenizer.from_pretrained(modelId),
+                transformers.AutoModelForSequenceClassification.from_pretrained(modelId, { quantized }),
+            ]);
+
+            await this.model?.dispose?.();
+            this.tokenizer = tokenizer;
+            this.model = model;
+            this.currentModel = modelId;
+            this.logger.info(`[Reranker] 重排序模型加载完成: ${modelId}`);
+        } catch (err) {
+            this.logger.error(`[Reranker] 重排序模型加载失败:`, err);
+            throw err;
+        }
+    }
+}
@@ -5,6 +5,9 @@
  * 因为 v2 版本更稳定，对 Obsidian/Electron 环境的兼容性更好
  */
 import type { IEmbedder } from "../../domain/interfaces/embedder";
+import type { ITokenCounter } from "../../domain/interfaces/token-counter";
+import { MODEL_MAX_TOKENS } from "../database/schema";
+import { DEFAULT_MAX_TOKENS } from "../../domain/chunking/token-budget";
 import type { Logger } from "../../shared/logger";
 
 export class TransformersAdapter implements IEmbedder {
@@ -127,4 +130,21 @@ export class TransformersAdapter implements IEmbedder {
     getMemoryUsage(): number {
         return 0;
     }
+
+    /**
+     * 模型自带的分词器
+     * 最大输入长度优先取已知模型的训练长度，其次取分词器配置的 model_max_length
+     */
+    getTokenCounter(): ITokenCounter | null {
+        const tokenizer = this.extractor?.tokenizer;
+        if (!tokenizer || !this.currentModel) return null;
+
+        const configured = Number(tokenizer.model_max_length);
+        const maxTokens = MODEL_MAX_TOKENS[this.currentModel]
+            ?? (configured > 0 && configured <= 8192 ? configured : DEFAULT_MAX_TOKENS);
+        return {
+            maxTokens,
+            count: (text: string) => tokenizer.encode(text).length,
+        };
+    }
 }
@@ -0,0 +1,112 @@
+/**
+ * 白泽 Baize - 移动端索引闸门
+ * 
+ * 按设置中的移动端索引触发策略（mobileIndexMode）暂缓索引：
+ * - auto：前台时随时索引
+ * - charging：仅在充电时索引（Battery Status API 不可用时退化为 auto）
+ * - manual：仅在用户执行“立即索引”命令时索引
+ * 任何模式下应用进入后台都会暂缓，避免同步工具触发大量变更时发热耗电
+ */
+import type { Plugin } from "obsidian";
+import type { Logger } from "../../shared/logger";
+import type { IIndexGate, IndexGateState } from "../../domain/interfaces/index-gate";
+
+/** 移动端索引触发策略 */
+export type MobileIndexMode = "auto" | "charging" | "manual";
+
+/** Battery Status API 的最小子集 */
+interface BatteryStatus extends EventTarget {
+    charging: boolean;
+}
+
+export class MobileIndexGate implements IIndexGate {
+    private plugin: Plugin;
+    private logger: Logger;
+    private getMode: () => MobileIndexMode;
+    private isInBackground: () => boolean;
+    private battery: BatteryStatus | null = null;
+    private listeners: Set<() => void> = new Set();
+
+    /**
+     * @param getMode - 读取当前的移动端索引触发策略
+     * @param isInBackground - 应用是否在后台运行
+     */
+    constructor(
+        plugin: Plugin,
+        logger: Logger,
+        getMode: () => MobileIndexMode,
+        isInBackground: () => boolean
+    ) {
+        this.plugin = plugin;
+        this.logger = logger;
+        this.getMode = getMode;
+        this.isInBackground = isInBackground;
+    }
+
+    /** 监听前后台切换与充电状态 */
+    init(): void {
+        const handleVisibility = () => this.notify();
+        document.addEventListener("visibilitychange", handleVisibility);
+        this.plugin.register(() => {
+            document.removeEventListener("visibilitychange", handleVisibility);
+        });
+
+        this.watchBattery();
+    }
+
+    getState(): IndexGateState {
+        if (this.isInBackground()) {
+            return { reason: "应用在后台运行", overridable: false };
+        }
+
+        const mode = this.getMode();
+        if (mode === "manual") {
+            return { reason: "手动索引模式", overridable: true };
+        }
+        if (mode === "charging" && this.battery && !this.battery.charging) {
+            return { reason: "等待充电", overridable: true };
+        }
+        return { reason: null, overridable: true };
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** 设置变更后重新评估 */
+    refresh(): void {
+        this.notify();
+    }
+
+    private async watchBattery(): Promise<void> {
+        const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryStatus> }).getBattery;
+        if (typeof getBattery !== "function") {
+            this.logger.info("[IndexGate] 当前环境不支持 Battery Status API，“仅充电时”将按前台自动索引处理");
+            return;
+        }
+
+        try {
+            const battery = await getBattery.call(navigator);
+            const handleCharging = () => {
+                this.logger.debug(`[IndexGate] 充电状态: ${battery.charging ? "充电中" : "未充电"}`);
+                this.notify();
+            };
+            battery.addEventListener("chargingchange", handleCharging);
+            this.plugin.register(() => {
+                battery.removeEventListener("chargingchange", handleCharging);
+            });
+
+            this.battery = battery;
+            this.notify();
+        } catch (e) {
+            this.logger.warn("[IndexGate] 读取电池状态失败，“仅充电时”将按前台自动索引处理", e);
+        }
+    }
+
+    private notify(): void {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
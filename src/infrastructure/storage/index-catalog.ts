@@ -0,0 +1,173 @@
+/**
+ * 白泽 Baize - 向量索引目录 (Index Catalog)
+ * 
+ * 记录当前对外提供搜索的索引（active），以及切换模型时正在后台构建的索引（pending）
+ * 每个索引绑定一个 EmbeddingProfile，并拥有独立的向量表 / 索引文件 / 清单
+ * 
+ * 迁移流程：beginMigration → 后台构建 pending → commitMigration 原子切换
+ * 目录文件只在切换点写入，重启后仍能恢复到一致的状态
+ */
+import type { VaultStorage } from "./vault-storage";
+import type { Logger } from "../../shared/logger";
+import type { EmbeddingProfile } from "../database/schema";
+import { LANCE_TABLE_NAME } from "../database/schema";
+
+/** 目录文件格式版本 */
+const CATALOG_VERSION = 1;
+
+/** 目录文件名（相对于插件数据目录） */
+const CATALOG_FILE = "index-catalog.json";
+
+/** 引入索引目录之前创建的索引 ID（沿用原有的表名与文件名） */
+const LEGACY_INDEX_ID = "default";
+
+/** 引入索引目录之前固定使用的模型 */
+const LEGACY_PROFILE: EmbeddingProfile = {
+    modelId: "Xenova/all-MiniLM-L6-v2",
+    dimensions: 384,
+    normalized: true,
+};
+
+/** 一个向量索引的描述 */
+export interface IndexDescriptor {
+    /** 索引 ID，决定表名、索引文件名与清单文件名 */
+    id: string;
+
+    /** 生成该索引向量的 Embedding 配置 */
+    profile: EmbeddingProfile;
+
+    /** 创建时间（ISO 8601 字符串） */
+    createdAt: string;
+}
+
+/** 索引在磁盘上的存储名称 */
+export interface IndexStorageNames {
+    /** LanceDB 表名 */
+    lanceTable: string;
+    /** Voy 索引文件名（相对于插件目录） */
+    voyFile: string;
+    /** 索引清单文件名（相对于插件目录） */
+    manifestFile: string;
+    /** 关键词索引文件名（相对于插件目录） */
+    keywordFile: string;
+}
+
+interface CatalogData {
+    version: number;
+    active: IndexDescriptor;
+    pending?: IndexDescriptor;
+}
+
+export class IndexCatalog {
+    private storage: VaultStorage;
+    private logger: Logger;
+    private data: CatalogData = {
+        version: CATALOG_VERSION,
+        active: { id: LEGACY_INDEX_ID, profile: LEGACY_PROFILE, createdAt: "" },
+    };
+
+    constructor(storage: VaultStorage, logger: Logger) {
+        this.storage = storage;
+        this.logger = logger;
+    }
+
+    /** 加载目录，不存在时视为只有旧版默认索引 */
+    async load(): Promise<void> {
+        try {
+            if (!(await this.storage.exists(CATALOG_FILE))) return;
+
+            const data = await this.storage.readJSON<CatalogData>(CATALOG_FILE);
+            if (data.version !== CATALOG_VERSION || !data.active?.profile) {
+                this.logger.warn(`[Catalog] 索引目录版本不兼容 (${data.version})，已忽略`);
+                return;
+            }
+            this.data = data;
+            this.logger.info(
+                `[Catalog] 当前索引: ${data.active.profile.modelId}` +
+                (data.pending ? `，待切换: ${data.pending.profile.modelId}` : "")
+            );
+        } catch (e) {
+            this.logger.warn("[Catalog] 读取索引目录失败，使用默认索引", e);
+        }
+    }
+
+    /** 当前对外提供搜索的索引 */
+    get active(): IndexDescriptor {
+        return this.data.active;
+    }
+
+    /** 正在后台构建的索引 */
+    get pending(): IndexDescriptor | undefined {
+        return this.data.pending;
+    }
+
+    /** 登记一个新的待构建索引（替换尚未完成的旧迁移） */
+    async beginMigration(profile: EmbeddingProfile): Promise<IndexDescriptor> {
+        const descriptor = createDescriptor(profile);
+        this.data.pending = descriptor;
+        await this.save();
+        return descriptor;
+    }
+
+    /**
+     * 原子切换：待构建索引成为当前索引
+     * @returns 被替换下来的旧索引（由调用方清理）
+     */
+    async commitMigration(): Promise<IndexDescriptor> {
+        const { active, pending } = this.data;
+        if (!pending) throw new Error("没有待切换的索引");
+
+        this.data = { version: CATALOG_VERSION, active: pending };
+        await this.save();
+        this.logger.info(`[Catalog] 已切换索引: ${active.profile.modelId} → ${pending.profile.modelId}`);
+        return active;
+    }
+
+    /**
+     * 放弃待构建索引
+     * @returns 被放弃的索引（由调用方清理）
+     */
+    async abortMigration(): Promise<IndexDescriptor | undefined> {
+        const { pending } = this.data;
+        if (!pending) return undefined;
+
+        delete this.data.pending;
+        await this.save();
+        return pending;
+    }
+
+    /**
+     * 直接替换当前索引（当前索引为空、无需保留旧结果时使用）
+     * @returns 被替换下来的旧索引（由调用方清理）
+     */
+    async replaceActive(profile: EmbeddingProfile): Promise<IndexDescriptor> {
+        const previous = this.data.active;
+        this.data = { version: CATALOG_VERSION, active: createDescriptor(profile) };
+        await this.save();
+        return previous;
+    }
+
+    private async save(): Promise<void> {
+        await this.storage.writeJSON(CATALOG_FILE, this.data);
+    }
+}
+
+/** 计算索引的存储名称（旧版默认索引沿用原有名称） */
+export function indexStorageNames(id: string): IndexStorageNames {
+    const suffix = id === LEGACY_INDEX_ID ? "" : `_${id}`;
+    return {
+        lanceTable: `${LANCE_TABLE_NAME}${suffix}`,
+        voyFile: `baize_voy${suffix}.json`,
+        manifestFile: `index-manifest${suffix}.json`,
+        keywordFile: `keyword-index${suffix}.json`,
+    };
+}
+
+function createDescriptor(profile: EmbeddingProfile): IndexDescriptor {
+    const slug = profile.modelId.replace(/[^a-zA-Z0-9]+/g, "_").toLowerCase();
+    return {
+        id: `${slug}_${Date.now().toString(36)}`,
+        profile,
+        createdAt: new Date().toISOString(),
+    };
+}
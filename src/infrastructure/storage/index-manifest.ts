@@ -0,0 +1,162 @@
+/**
+ * 白泽 Baize - 索引清单 (Index Manifest)
+ * 
+ * 持久化记录每个文件最近一次索引时的状态：
+ * 路径、mtime、大小、内容哈希、分块数、模型 ID、分块器版本
+ * 
+ * 用途：
+ * - 启动或全量同步时跳过未变更的笔记
+ * - 找出 Obsidian 关闭期间被删除的文件并清理其向量
+ */
+import type { VaultStorage } from "./vault-storage";
+import type { Logger } from "../../shared/logger";
+import { BaizeFile } from "../../domain/models/baize-file";
+import type { BaizeFileEntry, IndexStatus } from "../../domain/models/baize-file";
+
+/** 清单文件格式版本（结构不兼容时递增，旧清单会被丢弃） */
+const MANIFEST_VERSION = 1;
+
+/** 默认清单文件名（相对于插件数据目录） */
+const MANIFEST_FILE = "index-manifest.json";
+
+interface ManifestData {
+    version: number;
+    files: BaizeFileEntry[];
+}
+
+export class IndexManifest {
+    private storage: VaultStorage;
+    private logger: Logger;
+    private fileName: string;
+    private entries: Map<string, BaizeFileEntry> = new Map();
+    private dirty = false;
+
+    /**
+     * @param fileName - 清单文件名，每个向量索引各自一份
+     */
+    constructor(storage: VaultStorage, logger: Logger, fileName = MANIFEST_FILE) {
+        this.storage = storage;
+        this.logger = logger;
+        this.fileName = fileName;
+    }
+
+    /** 从磁盘加载清单，文件不存在或格式不兼容时以空清单启动 */
+    async load(): Promise<void> {
+        this.entries.clear();
+        this.dirty = false;
+
+        try {
+            if (!(await this.storage.exists(this.fileName))) {
+                this.logger.info("[Manifest] 未找到索引清单，将在首次索引后创建");
+                return;
+            }
+
+            const data = await this.storage.readJSON<ManifestData>(this.fileName);
+            if (data.version !== MANIFEST_VERSION || !Array.isArray(data.files)) {
+                this.logger.warn(`[Manifest] 清单版本不兼容 (${data.version})，已忽略`);
+                return;
+            }
+
+            for (const entry of data.files) {
+                this.entries.set(entry.path, entry);
+            }
+            this.logger.info(`[Manifest] 已加载索引清单: ${this.entries.size} 个文件`);
+        } catch (e) {
+            this.logger.warn("[Manifest] 读取索引清单失败，将以空清单启动", e);
+        }
+    }
+
+    /** 将清单写回磁盘（无变更时跳过） */
+    async save(): Promise<void> {
+        if (!this.dirty) return;
+
+        const data: ManifestData = {
+            version: MANIFEST_VERSION,
+            files: [...this.entries.values()],
+        };
+
+        try {
+            await this.storage.writeJSON(this.fileName, data);
+            this.dirty = false;
+            this.logger.debug(`[Manifest] 已保存索引清单: ${this.entries.size} 个文件`);
+        } catch (e) {
+            this.logger.error("[Manifest] 保存索引清单失败", e);
+        }
+    }
+
+    /** 获取文件的索引记录 */
+    get(path: string): BaizeFile | undefined {
+        const entry = this.entries.get(path);
+        return entry ? BaizeFile.fromEntry(entry) : undefined;
+    }
+
+    /** 写入/更新文件的索引记录 */
+    set(file: BaizeFile): void {
+        this.entries.set(file.path, file.toEntry());
+        this.dirty = true;
+    }
+
+    /** 删除文件的索引记录 */
+    remove(path: string): void {
+        if (this.entries.delete(path)) {
+            this.dirty = true;
+        }
+    }
+
+    /**
+     * 将索引记录移动到新路径（文件重命名后向量已改写时使用）
+     * @returns 移动后的记录；原路径无记录时返回 undefined
+     */
+    rename(oldPath: string, newPath: string): BaizeFile | undefined {
+        const entry = this.entries.get(oldPath);
+        if (!entry) return undefined;
+
+        this.entries.delete(oldPath);
+        const moved = { ...entry, path: newPath };
+        this.entries.set(newPath, moved);
+        this.dirty = true;
+        return BaizeFile.fromEntry(moved);
+    }
+
+    /** 所有已记录的文件路径 */
+    paths(): string[] {
+        return [...this.entries.keys()];
+    }
+
+    /** 处于指定状态的文件记录 */
+    filesWithStatus(status: IndexStatus): BaizeFile[] {
+        const files: BaizeFile[] = [];
+        for (const entry of this.entries.values()) {
+            if (entry.status === status) files.push(BaizeFile.fromEntry(entry));
+        }
+        return files;
+    }
+
+    /** 处于指定状态的文件路径 */
+    pathsWithStatus(status: IndexStatus): string[] {
+        const paths: string[] = [];
+        for (const entry of this.entries.values()) {
+            if (entry.status === status) paths.push(entry.path);
+        }
+        return paths;
+    }
+
+    /** 已记录的文件数 */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** 删除清单文件（所属索引被删除时使用） */
+    async delete(): Promise<void> {
+        this.entries.clear();
+        this.dirty = false;
+        await this.storage.remove(this.fileName);
+    }
+
+    /** 清空清单（重建索引时使用） */
+    clear(): void {
+        if (this.entries.size === 0) return;
+        this.entries.clear();
+        this.dirty = true;
+    }
+}
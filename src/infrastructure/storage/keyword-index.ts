@@ -0,0 +1,257 @@
+/**
+ * 白泽 Baize - 关键词索引 (BM25)
+ * 
+ * 与向量库并行维护的倒排索引，按分块 id 记录词频，用于混合检索中的关键词召回：
+ * 错误码、人名、工单号等精确词汇在向量相似度中往往排名靠后，BM25 能直接命中
+ * 
+ * 由索引调度器随向量写入同步更新，与索引清单一样按索引各自持久化为一个 JSON 文件，
+ * 加载时重建倒排表
+ */
+import type { VaultStorage } from "./vault-storage";
+import type { Logger } from "../../shared/logger";
+import type { VectorRecord } from "../database/schema";
+import { keywordText, tokenize } from "../../domain/search/keyword-tokenizer";
+
+/** 索引文件格式版本（分词方式变化时递增，旧索引会被丢弃并从向量库重建） */
+const KEYWORD_INDEX_VERSION = 1;
+
+/** BM25 词频饱和参数 */
+const BM25_K1 = 1.2;
+
+/** BM25 文档长度归一化参数 */
+const BM25_B = 0.75;
+
+/** 单个分块的词频 */
+interface KeywordDoc {
+    path: string;
+    /** 词项总数 */
+    length: number;
+    terms: [string, number][];
+}
+
+interface KeywordIndexData {
+    version: number;
+    docs: [string, KeywordDoc][];
+}
+
+/** 关键词检索命中 */
+export interface KeywordHit {
+    /** 分块 id（与向量记录 id 相同） */
+    id: string;
+    /** BM25 分数 */
+    score: number;
+}
+
+export class KeywordIndex {
+    private storage: VaultStorage;
+    private logger: Logger;
+    private fileName: string;
+    private docs: Map<string, KeywordDoc> = new Map();
+    /** 倒排表：词项 → 分块 id → 词频 */
+    private postings: Map<string, Map<string, number>> = new Map();
+    /** 文件路径 → 分块 id */
+    private files: Map<string, Set<string>> = new Map();
+    private totalLength = 0;
+    private dirty = false;
+
+    /**
+     * @param fileName - 索引文件名，每个向量索引各自一份
+     */
+    constructor(storage: VaultStorage, logger: Logger, fileName: string) {
+        this.storage = storage;
+        this.logger = logger;
+        this.fileName = fileName;
+    }
+
+    /**
+     * 从磁盘加载索引
+     * @returns 是否加载成功（文件不存在或格式不兼容时为 false，需要从向量库重建）
+     */
+    async load(): Promise<boolean> {
+        this.reset();
+        try {
+            if (!(await this.storage.exists(this.fileName))) return false;
+
+            const data = await this.storage.readJSON<KeywordIndexData>(this.fileName);
+            if (data.version !== KEYWORD_INDEX_VERSION || !Array.isArray(data.docs)) {
+                this.logger.warn(`[Keyword] 关键词索引版本不兼容 (${data.version})，将重建`);
+                return false;
+            }
+
+            for (const [id, doc] of data.docs) this.addDoc(id, doc);
+            this.dirty = false;
+            this.logger.info(`[Keyword] 已加载关键词索引: ${this.docs.size} 个分块`);
+            return true;
+        } catch (e) {
+            this.logger.warn("[Keyword] 读取关键词索引失败，将重建", e);
+            return false;
+        }
+    }
+
+    /** 将索引写回磁盘（无变更时跳过） */
+    async save(): Promise<void> {
+        if (!this.dirty) return;
+
+        const data: KeywordIndexData = {
+            version: KEYWORD_INDEX_VERSION,
+            docs: [...this.docs],
+        };
+
+        try {
+            await this.storage.writeJSON(this.fileName, data);
+            this.dirty = false;
+            this.logger.debug(`[Keyword] 已保存关键词索引: ${this.docs.size} 个分块`);
+        } catch (e) {
+            this.logger.error("[Keyword] 保存关键词索引失败", e);
+        }
+    }
+
+    /** 按向量库中的全部记录重建索引（首次启用或索引文件丢失时） */
+    rebuild(records: Pick<VectorRecord, "id" | "file_path" | "text" | "metadata">[]): void {
+        this.reset();
+        for (const record of records) {
+            this.addDoc(record.id, toDoc(record));
+        }
+        this.dirty = true;
+        this.logger.info(`[Keyword] 已从向量库重建关键词索引: ${this.docs.size} 个分块`);
+    }
+
+    /** 替换文件的全部分块 */
+    setFile(path: string, records: Pick<VectorRecord, "id" | "file_path" | "text" | "metadata">[]): void {
+        this.removeFile(path);
+        for (const record of records) {
+            this.addDoc(record.id, toDoc(record));
+        }
+        this.dirty = true;
+    }
+
+    /** 删除文件的全部分块 */
+    removeFile(path: string): void {
+        const ids = this.files.get(path);
+        if (!ids) return;
+        for (const id of [...ids]) this.removeDoc(id);
+        this.dirty = true;
+    }
+
+    /** 文件重命名：将分块改写到新路径（id 前缀同向量库一起改写），新路径上已有的分块被覆盖 */
+    renameFile(oldPath: string, newPath: string): void {
+        const ids = this.files.get(oldPath);
+        if (!ids) return;
+
+        this.removeFile(newPath);
+        const prefix = `${oldPath}::`;
+        for (const id of [...ids]) {
+            const doc = this.docs.get(id)!;
+            this.removeDoc(id);
+            const newId = id.startsWith(prefix) ? `${newPath}::${id.slice(prefix.length)}` : id;
+            this.addDoc(newId, { ...doc, path: newPath });
+        }
+        this.dirty = true;
+    }
+
+    /**
+     * BM25 检索
+     * @param limit - 返回的命中数上限
+     * @returns 按分数降序排列的命中
+     */
+    search(query: string, limit: number): KeywordHit[] {
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0 || this.docs.size === 0) return [];
+
+        const total = this.docs.size;
+        const averageLength = this.totalLength / total || 1;
+        const scores = new Map<string, number>();
+
+        for (const term of terms) {
+            const posting = this.postings.get(term);
+            if (!posting) continue;
+
+            const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+            for (const [id, tf] of posting) {
+                const length = this.docs.get(id)!.length;
+                const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength);
+                scores.set(id, (scores.get(id) ?? 0) + idf * tf * (BM25_K1 + 1) / norm);
+            }
+        }
+
+        return [...scores]
+            .map(([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /** 已索引的分块数 */
+    get size(): number {
+        return this.docs.size;
+    }
+
+    /** 删除索引文件（所属索引被删除时使用） */
+    async delete(): Promise<void> {
+        this.reset();
+        await this.storage.remove(this.fileName);
+    }
+
+    /** 清空索引（重建索引时使用） */
+    clear(): void {
+        if (this.docs.size === 0) return;
+        this.reset();
+        this.dirty = true;
+    }
+
+    private reset(): void {
+        this.docs.clear();
+        this.postings.clear();
+        this.files.clear();
+        this.totalLength = 0;
+        this.dirty = false;
+    }
+
+    private addDoc(id: string, doc: KeywordDoc): void {
+        if (this.docs.has(id)) this.removeDoc(id);
+
+        this.docs.set(id, doc);
+        this.totalLength += doc.length;
+        for (const [term, tf] of doc.terms) {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(id, tf);
+        }
+
+        let ids = this.files.get(doc.path);
+        if (!ids) {
+            ids = new Set();
+            this.files.set(doc.path, ids);
+        }
+        ids.add(id);
+    }
+
+    private removeDoc(id: string): void {
+        const doc = this.docs.get(id);
+        if (!doc) return;
+
+        this.docs.delete(id);
+        this.totalLength -= doc.length;
+        for (const [term] of doc.terms) {
+            const posting = this.postings.get(term);
+            posting?.delete(id);
+            if (posting?.size === 0) this.postings.delete(term);
+        }
+
+        const ids = this.files.get(doc.path);
+        ids?.delete(id);
+        if (ids?.size === 0) this.files.delete(doc.path);
+    }
+}
+
+/** 统计分块的词频 */
+function toDoc(record: Pick<VectorRecord, "file_path" | "text" | "metadata">): KeywordDoc {
+    const tokens = tokenize(keywordText(record));
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return { path: record.file_path, length: tokens.length, terms: [...counts] };
+}
@@ -11,7 +11,7 @@
 // ═══ 必须在最前面导入 polyfill ═══
 import "./polyfill-entry";
 
-import { Plugin, WorkspaceLeaf, addIcon, TFile } from "obsidian";
+import { Plugin, WorkspaceLeaf, addIcon, TFile, Notice } from "obsidian";
 import type { PlatformType } from "./shared/types";
 import { VIEW_TYPE_BAIZE } from "./shared/constants";
 import { validateSettings } from "./settings/default-settings";
@@ -25,13 +25,43 @@ import { getPlatform } from "./infrastructure/platform/platform-detect";
 import { DesktopPlatform } from "./infrastructure/platform/desktop";
 import { AndroidPlatform } from "./infrastructure/platform/android";
 import { IOSPlatform } from "./infrastructure/platform/ios";
+import { MobileIndexGate } from "./infrastructure/platform/mobile-index-gate";
 import { LanceAdapter } from "./infrastructure/database/lance-adapter";
 import { VoyAdapter } from "./infrastructure/database/voy-adapter";
 import type { IVectorStore } from "./domain/interfaces/vector-store";
+import type { IEmbedder } from "./domain/interfaces/embedder";
+import type { SearchResult } from "./domain/models/search-result";
+import { MODEL_DIMENSIONS } from "./infrastructure/database/schema";
+import type { VectorSearchFilter } from "./infrastructure/database/schema";
 import { IndexScheduler } from "./application/index-scheduler";
+import type { IndexErrorPayload, IndexPipelineOptions, IndexSchedulerStatus } from "./application/index-scheduler";
+import { IndexVerifier } from "./application/index-verifier";
+import { ChunkInspector } from "./application/chunk-inspector";
+import { HybridSearch } from "./application/hybrid-search";
+import { ResultReranker } from "./application/result-reranker";
+import { ModelMigration } from "./application/model-migration";
+import type { IndexHandle } from "./application/model-migration";
 import { TransformersAdapter } from "./infrastructure/models/transformers-adapter";
+import { CrossEncoderReranker } from "./infrastructure/models/cross-encoder-reranker";
 import { SyncService } from "./application/sync-service";
+import type { FileChangeBatch } from "./application/sync-service";
+import { VaultStorage } from "./infrastructure/storage/vault-storage";
+import { IndexManifest } from "./infrastructure/storage/index-manifest";
+import { KeywordIndex } from "./infrastructure/storage/keyword-index";
+import { IndexCatalog, indexStorageNames } from "./infrastructure/storage/index-catalog";
+import type { IndexDescriptor } from "./infrastructure/storage/index-catalog";
+import { PathFilter } from "./domain/filters/path-filter";
+import { ExtractorRegistry } from "./infrastructure/extractors/extractor-registry";
 import { BaizeEvents } from "./shared/event-bus";
+import { ChunkingStrategy } from "./domain/chunking/strategies";
+
+/** 设置中的分块策略对应的分块器策略 */
+const CHUNK_STRATEGIES: Record<BaizeSettings["chunkStrategy"], ChunkingStrategy> = {
+    hybrid: ChunkingStrategy.HYBRID,
+    heading: ChunkingStrategy.HEADING_SPLIT,
+    fixed: ChunkingStrategy.FIXED_LENGTH,
+    semantic: ChunkingStrategy.SEMANTIC_PARAGRAPH,
+};
 
 export default class BaizePlugin extends Plugin {
     settings!: BaizeSettings;
@@ -41,11 +71,26 @@ export default class BaizePlugin extends Plugin {
 
     vectorStore?: IVectorStore;
     indexScheduler?: IndexScheduler;
+    indexManifest?: IndexManifest;
+    indexCatalog?: IndexCatalog;
+    modelMigration?: ModelMigration;
+    pathFilter!: PathFilter;
     transformersAdapter?: TransformersAdapter;
     lastInsightPayload: { notePath: string; results: any[] } | null = null;
 
     private syncService?: SyncService;
+    private vaultStorage?: VaultStorage;
+    private extractors?: ExtractorRegistry;
+    /** 当前对外提供搜索的索引 */
+    private activeIndex?: IndexHandle;
     private platformAdapter?: DesktopPlatform | AndroidPlatform | IOSPlatform;
+    private indexGate?: MobileIndexGate;
+    /** 批量变更提示（索引完成、出错或插件卸载时关闭） */
+    private syncNotice: Notice | null = null;
+    /** 重排序模型（设置中启用后才创建） */
+    private reranker?: CrossEncoderReranker;
+    /** 每次同步重排序设置递增，加载完成时据此判断结果是否已过期 */
+    private rerankerGeneration = 0;
 
     async onload(): Promise<void> {
         // ── 0. 注册自定义图标 ──
@@ -58,6 +103,7 @@ export default class BaizePlugin extends Plugin {
         this.eventBus = new EventBus();
         this.logger = new Logger(this.settings.logLevel);
         this.logger.info("白泽正在苏醒...");
+        this.pathFilter = new PathFilter(this.settings);
 
         // ── 3. 平台检测 ──
         this.platform = this.detectPlatform();
@@ -86,13 +132,98 @@ export default class BaizePlugin extends Plugin {
             name: "白泽：重建全量索引",
             callback: () => {
                 if (this.indexScheduler) {
-                    this.indexScheduler.fullSync();
+                    this.indexScheduler.fullSync({ force: true });
                 } else {
                     this.logger.warn("索引调度器尚未初始化");
                 }
             },
         });
 
+        this.addCommand({
+            id: "pause-index",
+            name: "白泽：暂停索引",
+            checkCallback: (checking: boolean) => {
+                const status = this.indexScheduler?.getStatus();
+                if (!status || status.state === "paused") return false;
+                if (!checking) this.indexScheduler!.pause();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "resume-index",
+            name: "白泽：继续索引",
+            checkCallback: (checking: boolean) => {
+                if (this.indexScheduler?.getStatus().state !== "paused") return false;
+                if (!checking) this.indexScheduler.resume();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "cancel-index",
+            name: "白泽：取消索引",
+            checkCallback: (checking: boolean) => {
+                const status = this.indexScheduler?.getStatus();
+                if (!status || status.queueLength === 0) return false;
+                if (!checking) this.indexScheduler!.cancel();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "index-now",
+            name: "白泽：立即索引待处理的文件",
+            checkCallback: (checking: boolean) => {
+                const status = this.indexScheduler?.getStatus();
+                const migrating = this.modelMigration?.getStatus().state === "building";
+                if (status?.state !== "deferred" && !migrating) return false;
+                if (!checking) {
+                    this.indexScheduler?.indexNow();
+                    this.modelMigration?.indexNow();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "retry-failed-index",
+            name: "白泽：重试索引失败的文件",
+            checkCallback: (checking: boolean) => {
+                const status = this.indexScheduler?.getStatus();
+                if (!status || status.failedCount === 0) return false;
+                if (!checking) this.indexScheduler!.retryFailed();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "show-failed-files",
+            name: "白泽：查看索引失败的文件",
+            callback: () => {
+                this.openFailedFilesModal();
+            },
+        });
+
+        this.addCommand({
+            id: "verify-index",
+            name: "白泽：校验索引",
+            callback: () => {
+                this.openIndexHealthModal();
+            },
+        });
+
+        this.addCommand({
+            id: "inspect-chunks",
+            name: "白泽：查看当前笔记的分块",
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || !this.extractors?.get(file.extension)) return false;
+                if (!checking) this.openChunkInspectorModal(file);
+                return true;
+            },
+        });
+
         // ── 7. Ribbon 图标 ──
         this.addRibbonIcon(ICON_BAIZE, "白泽 Baize", () => {
             this.activateView();
@@ -116,14 +247,25 @@ export default class BaizePlugin extends Plugin {
     async onunload(): Promise<void> {
         this.logger.info("白泽正在休眠...");
 
-        // 卸载 Embedding 模型
+        // 暂停模型迁移（保留进度，下次启动继续）
+        await this.modelMigration?.suspend();
+
+        // 卸载 Embedding 模型与重排序模型
         await this.transformersAdapter?.unloadModel();
+        await this.reranker?.unloadModel();
+
+        // 保存索引清单与关键词索引
+        await this.indexManifest?.save();
+        await this.activeIndex?.keywords.save();
 
         // 关闭向量存储连接
         if (this.vectorStore) {
             await this.vectorStore.close();
         }
 
+        // 关闭未结束的批量变更提示
+        this.finishSyncNotice();
+
         // 销毁平台适配器
         this.platformAdapter?.destroy();
 
@@ -143,6 +285,12 @@ export default class BaizePlugin extends Plugin {
         await this.saveData(this.settings);
         // 同步日志级别
         this.logger?.setLevel(this.settings.logLevel);
+        // 同步索引排除规则
+        this.pathFilter?.setRules(this.settings);
+        // 同步移动端索引触发策略
+        this.indexGate?.refresh();
+        // 同步索引流水线与分块参数
+        this.indexScheduler?.configure(this.pipelineOptions());
     }
 
     // ─── 平台检测 ───
@@ -165,17 +313,26 @@ export default class BaizePlugin extends Plugin {
                 const android = new AndroidPlatform(this, this.logger, this.eventBus);
                 android.init();
                 this.platformAdapter = android;
+                this.initIndexGate(() => android.inBackground);
                 break;
             }
             case "ios": {
                 const ios = new IOSPlatform(this, this.logger, this.eventBus);
                 ios.init();
                 this.platformAdapter = ios;
+                this.initIndexGate(() => document.hidden);
                 break;
             }
         }
     }
 
+    /** 移动端按 mobileIndexMode 与前后台状态暂缓索引 */
+    private initIndexGate(isInBackground: () => boolean): void {
+        const gate = new MobileIndexGate(this, this.logger, () => this.settings.mobileIndexMode, isInBackground);
+        gate.init();
+        this.indexGate = gate;
+    }
+
     // ─── 视图管理 ───
 
     async activateView(): Promise<void> {
@@ -220,9 +377,173 @@ export default class BaizePlugin extends Plugin {
         }
     }
 
+    /** 打开索引失败文件报告 */
+    async openFailedFilesModal(): Promise<void> {
+        const { BaizeFailedFilesModal } = await import("./ui/views/failed-files-modal");
+        new BaizeFailedFilesModal(this.app, this).open();
+    }
+
+    /** 打开索引健康检查报告 */
+    async openIndexHealthModal(): Promise<void> {
+        const { BaizeIndexHealthModal } = await import("./ui/views/index-health-modal");
+        new BaizeIndexHealthModal(this.app, this).open();
+    }
+
+    /** 打开文件的分块检查视图 */
+    async openChunkInspectorModal(file: TFile): Promise<void> {
+        const { BaizeChunkInspectorModal } = await import("./ui/views/chunk-inspector-modal");
+        new BaizeChunkInspectorModal(this.app, this, file).open();
+    }
+
+    /**
+     * 在当前索引中混合检索：向量相似度与 BM25 关键词排名融合，关键词权重取自设置
+     * 启用重排序时多取候选，重排后再截取 Top-K
+     * 索引尚未就绪时返回空数组
+     */
+    async hybridSearch(
+        query: string,
+        vector: number[],
+        options: { topK: number; minScore?: number; filter?: VectorSearchFilter }
+    ): Promise<SearchResult[]> {
+        if (!this.activeIndex) return [];
+        const reranker = this.createResultReranker();
+        const results = await new HybridSearch(this.activeIndex.store, this.activeIndex.keywords, this.logger).search(query, vector, {
+            ...options,
+            topK: reranker?.candidateCount(options.topK) ?? options.topK,
+            keywordWeight: this.settings.keywordWeight,
+        });
+        if (!reranker) return results;
+        return (await reranker.rerank(query, results)).slice(0, options.topK);
+    }
+
+    /** 按设置创建结果重排序（未启用或模型尚未加载完成时返回 undefined） */
+    createResultReranker(): ResultReranker | undefined {
+        if (!this.settings.rerankEnabled || !this.reranker?.isReady()) return undefined;
+        return new ResultReranker(this.reranker, {
+            topN: this.settings.rerankTopN,
+            budgetMs: this.settings.rerankBudgetMs,
+        }, this.logger);
+    }
+
+    /** 使重排序模型与设置保持一致：启用时在后台加载（或切换）模型，关闭时卸载 */
+    async syncReranker(): Promise<void> {
+        const generation = ++this.rerankerGeneration;
+        if (!this.settings.rerankEnabled) {
+            const reranker = this.reranker;
+            this.reranker = undefined;
+            await reranker?.unloadModel();
+            return;
+        }
+
+        const modelId = this.settings.rerankModel;
+        const reranker = this.reranker ??= new CrossEncoderReranker(this.logger);
+        try {
+            await reranker.loadModel(modelId, {
+                quantized: true,
+                pluginResourcePath: this.pluginResourcePath(),
+            });
+        } catch (err) {
+            if (generation !== this.rerankerGeneration) return;
+            this.logger.error("重排序模型加载失败:", err);
+            new Notice(`白泽：重排序模型 ${modelId} 加载失败，搜索将保持原顺序`);
+            return;
+        }
+
+        // 加载期间设置已变化：重排序被关闭（或关闭后重新开启换了实例）时释放这次加载的模型；
+        // 只换了模型时由后一次同步在同一实例上加载新模型并替换
+        if (generation !== this.rerankerGeneration && reranker !== this.reranker) {
+            await reranker.unloadModel();
+        }
+    }
+
+    /** 为当前索引创建分块检查器（索引尚未就绪时返回 null） */
+    createChunkInspector(): ChunkInspector | null {
+        if (!this.activeIndex || !this.indexScheduler) return null;
+        return new ChunkInspector(this.indexScheduler, this.activeIndex.store);
+    }
+
+    /** 为当前索引创建健康检查器（索引尚未就绪时返回 null） */
+    createIndexVerifier(): IndexVerifier | null {
+        if (!this.activeIndex || !this.indexScheduler || !this.extractors) return null;
+        return new IndexVerifier(
+            this.app,
+            this.activeIndex.store,
+            this.activeIndex.manifest,
+            this.indexScheduler,
+            this.pathFilter,
+            this.extractors,
+            this.logger
+        );
+    }
+
+    /** 将文件加入排除列表，并删除其已有索引 */
+    async excludeFromIndex(path: string): Promise<void> {
+        // 以 / 开头锚定到 Vault 根，避免误伤其他目录下的同名文件
+        const rule = "/" + path;
+        if (!this.settings.excludePaths.includes(rule)) {
+            this.settings.excludePaths.push(rule);
+            await this.saveSettings();
+        }
+        try {
+            await this.indexScheduler?.forget(path);
+            this.logger.info(`已排除文件: ${path}`);
+        } catch (err) {
+            this.logger.error(`排除文件失败: ${path}`, err);
+        }
+    }
+
     // ─── 向量存储初始化 ───
 
     private async initVectorStore(): Promise<void> {
+        this.vaultStorage = new VaultStorage(this.app, this.logger);
+        this.indexCatalog = new IndexCatalog(this.vaultStorage, this.logger);
+        await this.indexCatalog.load();
+
+        let index = await this.openIndex(this.indexCatalog.active);
+
+        // 当前索引为空（如首次使用）且设置中选择了其他模型：无需迁移，直接按新模型建立索引
+        const target = this.settings.embeddingModel;
+        const dimensions = MODEL_DIMENSIONS[target];
+        if (
+            target !== index.descriptor.profile.modelId &&
+            dimensions &&
+            !this.indexCatalog.pending &&
+            (await index.store.getStats()).totalRecords === 0
+        ) {
+            await index.store.drop();
+            await index.manifest.delete();
+            await index.keywords.delete();
+            await this.indexCatalog.replaceActive({ modelId: target, dimensions, normalized: true });
+            index = await this.openIndex(this.indexCatalog.active);
+        }
+
+        this.useIndex(index);
+    }
+
+    /**
+     * 打开（或创建）索引对应的向量库、清单与关键词索引
+     * 关键词索引缺失（如升级前建立的索引）时从向量库中的记录重建，无需重新向量化
+     */
+    private async openIndex(descriptor: IndexDescriptor): Promise<IndexHandle> {
+        const names = indexStorageNames(descriptor.id);
+        const manifest = new IndexManifest(this.vaultStorage!, this.logger, names.manifestFile);
+        await manifest.load();
+
+        const store = await this.createVectorStore(descriptor, names.lanceTable, names.voyFile);
+
+        const keywords = new KeywordIndex(this.vaultStorage!, this.logger, names.keywordFile);
+        if (!(await keywords.load()) && manifest.size > 0) {
+            try {
+                keywords.rebuild(await store.getAll());
+                await keywords.save();
+            } catch (err) {
+                this.logger.warn("重建关键词索引失败，关键词检索将在文件重新索引后逐步恢复", err);
+            }
+        }
+        return { descriptor, store, manifest, keywords };
+    }
+
+    private async createVectorStore(descriptor: IndexDescriptor, lanceTable: string, voyFile: string): Promise<IVectorStore> {
         const pluginPath = this.app.vault.configDir + "/plugins/" + this.manifest.id;
 
         if (this.platform === "desktop") {
@@ -245,12 +566,12 @@ export default class BaizePlugin extends Plugin {
                 const lance = new LanceAdapter(
                     pluginPath + "/baize_lancedb",
                     this.logger,
-                    undefined, // modelName 
-                    lancedbModulePath
+                    descriptor.profile,
+                    lancedbModulePath,
+                    lanceTable
                 );
                 await lance.init();
-                this.vectorStore = lance;
-                return;
+                return lance;
             } catch (err) {
                 this.logger.warn("LanceDB 在此桌面环境无法运行，正在切换至 Voy (WASM) 模式...", err);
             }
@@ -261,16 +582,24 @@ export default class BaizePlugin extends Plugin {
         const voy = new VoyAdapter(
             this.app,
             this.logger,
-            pluginPath + "/baize_voy.json"
+            pluginPath + "/" + voyFile,
+            descriptor.profile
         );
         await voy.init();
-        this.vectorStore = voy;
+        return voy;
+    }
+
+    /** 将索引设为当前对外提供搜索的索引 */
+    private useIndex(index: IndexHandle): void {
+        this.activeIndex = index;
+        this.vectorStore = index.store;
+        this.indexManifest = index.manifest;
     }
 
     // ─── Embedding 管线初始化 ───
 
     private async initEmbeddingPipeline(): Promise<void> {
-        if (!this.vectorStore) {
+        if (!this.activeIndex || !this.indexCatalog) {
             this.logger.warn("向量存储未就绪，跳过 Embedding 管线初始化");
             return;
         }
@@ -280,48 +609,54 @@ export default class BaizePlugin extends Plugin {
             this.transformersAdapter = new TransformersAdapter(this.logger);
             this.logger.info("Embedding 引擎已创建 (Transformers v2 模式)");
 
-            // 2. 创建 IndexScheduler
-            this.indexScheduler = new IndexScheduler(
-                this.app,
-                this.eventBus,
-                this.vectorStore as any,
-                null as any, // modelManager 暂不使用
-                this.transformersAdapter as any,
-                this.logger
-            );
+            // 当前索引由哪个模型生成，就用哪个模型编码查询与新笔记
+            const profile = this.activeIndex.descriptor.profile;
+            const modelId = profile.modelId;
+
+            // 2. 创建 IndexScheduler 与模型迁移服务
+            this.extractors = ExtractorRegistry.createDefault(this.app, {
+                resolveEmbeds: () => this.settings.resolveEmbeds,
+            });
+            this.indexScheduler = this.createScheduler(this.eventBus, this.activeIndex, this.transformersAdapter);
             this.logger.info("索引调度器已创建");
 
+            this.modelMigration = new ModelMigration(this.eventBus, this.logger, this.indexCatalog, {
+                loadEmbedder: (id) => this.loadEmbedder(id),
+                openIndex: (descriptor) => this.openIndex(descriptor),
+                createScheduler: (events, index, embedder) => this.createScheduler(events, index, embedder),
+                activate: (index, embedder) => this.activateIndex(index, embedder),
+            });
+
             // 3. 注册文件同步监听
             this.syncService = new SyncService(
                 this.app,
                 this.eventBus,
                 this.logger,
-                [".obsidian/", ".trash/"]
+                this.pathFilter,
+                this.extractors
             );
             this.syncService.setupListeners();
+            this.registerSyncBurstNotice();
             this.logger.info("文件同步监听已注册");
 
             // 4. 后台异步加载模型（不阻塞插件启动）
-            const modelId = "Xenova/all-MiniLM-L6-v2";
             this.logger.info(`正在后台加载 Embedding 模型: ${modelId}...`);
 
-            // 计算插件目录的资源路径，用于加载本地 WASM 文件
-            const pluginPath = this.app.vault.configDir + "/plugins/" + this.manifest.id;
-            const resourcePath = (this.app.vault.adapter as any).getResourcePath
-                ? (this.app.vault.adapter as any).getResourcePath(pluginPath)
-                : pluginPath;
-
-            this.transformersAdapter.loadModel(
-                modelId,
-                { quantized: true, pluginResourcePath: resourcePath },
-                (progress: number) => {
-                    if (progress % 20 === 0 || progress === 100) {
-                        this.logger.info(`模型加载进度: ${progress}%`);
-                    }
+            this.loadModelInto(this.transformersAdapter, modelId).then(async () => {
+                // 模型输出维度必须与索引一致，否则拒绝写入
+                const dimensions = (await this.transformersAdapter!.embed("dimension probe")).length;
+                if (dimensions !== profile.dimensions) {
+                    throw new Error(`模型输出 ${dimensions} 维向量，与当前索引 (${profile.dimensions} 维) 不一致`);
                 }
-            ).then(() => {
+
                 this.logger.info("Embedding 模型加载完成 ✅");
                 this.eventBus.emit(BaizeEvents.MODEL_READY);
+                // 增量同步：只索引 Obsidian 关闭期间新增或修改的笔记
+                this.indexScheduler?.fullSync();
+                // 设置中选择了其他模型（或上次迁移未完成）：在后台构建新索引
+                this.syncEmbeddingModel();
+                // 启用了重排序：Embedding 模型就绪后再加载重排序模型，避免同时下载
+                this.syncReranker();
             }).catch((err: Error) => {
                 this.logger.error("Embedding 模型加载失败:", err);
             });
@@ -331,6 +666,167 @@ export default class BaizePlugin extends Plugin {
         }
     }
 
+    /** 为索引创建调度器 */
+    private createScheduler(events: EventBus, index: IndexHandle, embedder: IEmbedder): IndexScheduler {
+        return new IndexScheduler(
+            this.app,
+            events,
+            index.store,
+            null as any, // modelManager 暂不使用
+            embedder,
+            this.logger,
+            index.manifest,
+            {
+                modelId: index.descriptor.profile.modelId,
+                filter: this.pathFilter,
+                extractors: this.extractors!,
+                ...this.pipelineOptions(),
+                gate: this.indexGate,
+                keywords: index.keywords,
+            }
+        );
+    }
+
+    /**
+     * 索引流水线与分块参数
+     * workerCount 为 0 时桌面端按 CPU 核数自动选择并行批次数，移动端固定为 1
+     */
+    private pipelineOptions(): IndexPipelineOptions {
+        const concurrency = this.platform !== "desktop"
+            ? 1
+            : this.settings.workerCount || Math.min(Math.floor((navigator.hardwareConcurrency || 2) / 2), 4);
+        return {
+            embedBatchSize: this.settings.embedBatchSize,
+            embedConcurrency: Math.max(1, concurrency),
+            chunking: {
+                strategy: CHUNK_STRATEGIES[this.settings.chunkStrategy],
+                chunkSize: this.settings.maxChunkTokens,
+                resolveEmbeds: this.settings.resolveEmbeds,
+                contextHeaders: this.settings.contextHeaders,
+                contextProperties: this.settings.contextProperties,
+            },
+            assignBlockIds: this.settings.assignBlockIds,
+        };
+    }
+
+    /** 创建并加载一个 Embedding 模型实例 */
+    private async loadEmbedder(modelId: string): Promise<TransformersAdapter> {
+        const adapter = new TransformersAdapter(this.logger);
+        await this.loadModelInto(adapter, modelId);
+        return adapter;
+    }
+
+    private loadModelInto(adapter: TransformersAdapter, modelId: string): Promise<void> {
+        return adapter.loadModel(
+            modelId,
+            { quantized: true, pluginResourcePath: this.pluginResourcePath() },
+            (progress: number) => {
+                if (progress % 20 === 0 || progress === 100) {
+                    this.logger.info(`模型加载进度 (${modelId}): ${progress}%`);
+                }
+            }
+        );
+    }
+
+    /** 插件目录的资源路径，用于加载本地 WASM 文件 */
+    private pluginResourcePath(): string {
+        const pluginPath = this.app.vault.configDir + "/plugins/" + this.manifest.id;
+        return (this.app.vault.adapter as any).getResourcePath
+            ? (this.app.vault.adapter as any).getResourcePath(pluginPath)
+            : pluginPath;
+    }
+
+    // ─── 模型切换 ───
+
+    /** 使索引与设置中选择的模型保持一致（必要时在后台启动迁移，或取消已无必要的迁移） */
+    async syncEmbeddingModel(): Promise<void> {
+        await this.modelMigration?.start(this.settings.embeddingModel);
+    }
+
+    /** 取消模型迁移，设置恢复为当前索引使用的模型 */
+    async cancelModelMigration(): Promise<void> {
+        if (this.activeIndex) {
+            this.settings.embeddingModel = this.activeIndex.descriptor.profile.modelId;
+            await this.saveSettings();
+        }
+        await this.modelMigration?.cancel();
+    }
+
+    /** 新索引构建完成：原子切换查询模型、向量库与调度器，然后清理旧索引 */
+    private async activateIndex(index: IndexHandle, embedder: IEmbedder): Promise<void> {
+        const previous = this.activeIndex;
+        const previousScheduler = this.indexScheduler;
+        const previousEmbedder = this.transformersAdapter;
+
+        const scheduler = this.createScheduler(this.eventBus, index, embedder);
+
+        // 同步替换引用：查询要么全部走旧模型 + 旧索引，要么全部走新模型 + 新索引
+        this.useIndex(index);
+        this.transformersAdapter = embedder as TransformersAdapter;
+        this.indexScheduler = scheduler;
+        scheduler.markModelReady();
+
+        await previousScheduler?.destroy();
+        // 旧调度器不会再报告进度，它未完成的批量变更由新索引接手
+        this.finishSyncNotice();
+        await previousEmbedder?.unloadModel();
+        if (previous) {
+            try {
+                await previous.store.drop();
+                await previous.manifest.delete();
+                await previous.keywords.delete();
+            } catch (err) {
+                this.logger.warn("清理旧索引失败", err);
+            }
+        }
+
+        new Notice(`白泽：已切换到 ${index.descriptor.profile.modelId} 的新索引`);
+        this.eventBus.emit(BaizeEvents.INDEX_COMPLETE);
+        scheduler.fullSync();
+    }
+
+    // ─── 批量变更提示 ───
+    /** 批量变更（同步风暴）期间显示一条持续更新的进度通知，代替逐个文件的提示 */
+    private registerSyncBurstNotice(): void {
+        this.eventBus.on(BaizeEvents.FILE_BATCH, (batch: unknown) => {
+            const { changed, deleted, renamed } = batch as FileChangeBatch;
+            const message = `白泽：检测到 ${changed.length + deleted.length + renamed.length} 个文件变更，正在更新索引...`;
+            if (this.syncNotice) this.syncNotice.setMessage(message);
+            else this.syncNotice = new Notice(message, 0);
+
+            // 模型尚未加载完成时变更只是加入队列，不会有进度与完成事件
+            if (!this.indexScheduler?.isModelReady()) {
+                this.finishSyncNotice("白泽：批量变更已加入索引队列（模型加载中）");
+            }
+        });
+        this.eventBus.on(BaizeEvents.INDEX_PROGRESS, (done: unknown, total: unknown) => {
+            this.syncNotice?.setMessage(`白泽：正在更新索引 ${done}/${total}`);
+        });
+        this.eventBus.on(BaizeEvents.INDEX_COMPLETE, () => this.finishSyncNotice("白泽：批量变更已同步到索引"));
+        this.eventBus.on(BaizeEvents.INDEX_ERROR, (payload: unknown) => {
+            const { failures } = payload as IndexErrorPayload;
+            this.finishSyncNotice(`白泽：批量变更同步完成，${failures.length} 个文件索引失败`);
+        });
+        this.eventBus.on(BaizeEvents.INDEX_STATE, (status: unknown) => {
+            const { state, holdReason } = status as IndexSchedulerStatus;
+            if (state === "idle") this.finishSyncNotice("白泽：批量变更已同步到索引");
+            else if (state === "deferred") this.finishSyncNotice(`白泽：批量变更已加入索引队列（${holdReason}）`);
+        });
+    }
+
+    /** 结束批量变更提示：显示结果后稍候关闭，未提供结果时立即关闭 */
+    private finishSyncNotice(message?: string): void {
+        const current = this.syncNotice;
+        if (!current) return;
+        this.syncNotice = null;
+        if (!message) {
+            current.hide();
+            return;
+        }
+        current.setMessage(message);
+        setTimeout(() => current.hide(), 3000);
+    }
+
     // ─── 注册当前笔记切换监听（灵感联想）───
     private registerActiveNoteListener(): void {
         let lastNotePath = "";
@@ -345,6 +841,9 @@ export default class BaizePlugin extends Plugin {
                 if (notePath === lastNotePath) return;
                 lastNotePath = notePath;
 
+                // 当前笔记若仍在索引队列中，优先处理
+                this.indexScheduler?.prioritize(notePath);
+
                 this.logger.info(`[Insight] 切换到笔记: ${notePath}`);
                 this.eventBus.emit(BaizeEvents.SEARCH_START);
 
@@ -389,15 +888,18 @@ export default class BaizePlugin extends Plugin {
             this.logger.info("[Insight] 编码笔记内容...");
             const queryVector = await this.transformersAdapter.embed(queryText);
 
-            // 搜索相似内容（排除当前笔记）
+            // 搜索相似内容（排除当前笔记），启用重排序时多取候选
             this.logger.info("[Insight] 搜索相关内容...");
-            const allResults = await this.vectorStore.search(queryVector, 10, 0.3);
+            const reranker = this.createResultReranker();
+            const allResults = await this.vectorStore.search(queryVector, reranker?.candidateCount(10) ?? 10, 0.3);
 
-            // 过滤掉当前笔记的结果
-            const results = allResults.filter(r => {
+            // 过滤掉当前笔记及已排除路径的结果
+            const candidates = this.pathFilter.filterResults(allResults).filter(r => {
                 const resultPath = r.chunk.vectorId.split("::")[0];
                 return resultPath !== notePath;
-            }).slice(0, 5); // 取前5个
+            });
+            const ranked = reranker ? await reranker.rerank(queryText, candidates) : candidates;
+            const results = ranked.slice(0, 5); // 取前5个
 
             this.logger.info(`[Insight] 找到 ${results.length} 条相关笔记`);
 
@@ -2,8 +2,18 @@
  * 白泽 Baize - 默认配置与设置校验
  */
 
+/**
+ * 设置格式版本（默认值或取值含义变化、需要迁移已保存的设置时递增）
+ * 1：chunkStrategy 的 "heading" 是旧版默认值，实际按混合方式分块
+ * 2："heading" 表示仅按标题分块，默认值改为 "hybrid"
+ */
+export const SETTINGS_VERSION = 2;
+
 /** 插件设置接口 */
 export interface BaizeSettings {
+    /** 设置格式版本（见 SETTINGS_VERSION） */
+    settingsVersion: number;
+
     // ── 模型设置 ──
     /** Embedding 模型 ID (HuggingFace 格式) */
     embeddingModel: string;
@@ -21,12 +31,24 @@ export interface BaizeSettings {
     chatModel: string;
 
     // ── 索引设置 ──
-    /** 排除的文件/目录路径 (glob 模式) */
+    /** 排除的文件/目录路径 (glob / 正则 / ! 反向规则) */
     excludePaths: string[];
+    /** 排除的标签（含子标签） */
+    excludeTags: string[];
+    /** 索引文件大小上限 (KB)，0 为不限制 */
+    maxFileSizeKB: number;
     /** 文本分块策略 */
-    chunkStrategy: "heading" | "fixed" | "semantic";
+    chunkStrategy: "hybrid" | "heading" | "fixed" | "semantic";
     /** 每个分块的最大 Token 数 */
     maxChunkTokens: number;
+    /** 索引时展开 ![[...]] 嵌入内容 */
+    resolveEmbeds: boolean;
+    /** 向量化时为分块加上笔记标题、章节路径、属性与标签 */
+    contextHeaders: boolean;
+    /** 写入上下文标题的 frontmatter 属性名 */
+    contextProperties: string[];
+    /** 索引时为不含块 ID 的分块在笔记中写入块 ID */
+    assignBlockIds: boolean;
     /** 移动端索引触发策略 */
     mobileIndexMode: "auto" | "charging" | "manual";
 
@@ -35,10 +57,22 @@ export interface BaizeSettings {
     topK: number;
     /** 最低相似度阈值 (0.0 - 1.0) */
     minScore: number;
+    /** 混合检索中关键词 (BM25) 排名的权重 (0.0 - 1.0)，0 为纯向量检索 */
+    keywordWeight: number;
+    /** 用交叉编码器对前 N 个候选重排序 */
+    rerankEnabled: boolean;
+    /** 重排序模型 ID (HuggingFace 格式) */
+    rerankModel: string;
+    /** 参与重排序的候选数 */
+    rerankTopN: number;
+    /** 重排序的时间预算（毫秒），超出时保留原顺序 */
+    rerankBudgetMs: number;
 
     // ── 高级设置 ──
-    /** Web Worker 线程数 (0 为自动) */
+    /** 并行向量化的批次数 (0 为自动) */
     workerCount: number;
+    /** 每个向量化批次的分块数 */
+    embedBatchSize: number;
     /** 日志打印级别 */
     logLevel: "debug" | "info" | "warn" | "error";
     /** 上次打开的选项卡 ID */
@@ -47,6 +81,7 @@ export interface BaizeSettings {
 
 /** 默认设置值 */
 export const DEFAULT_SETTINGS: BaizeSettings = {
+    settingsVersion: SETTINGS_VERSION,
     embeddingModel: "Xenova/all-MiniLM-L6-v2",
     modelPrecision: "auto",
     llmProvider: "deepseek",
@@ -54,12 +89,24 @@ export const DEFAULT_SETTINGS: BaizeSettings = {
     apiBaseUrl: "https://api.deepseek.com/v1",
     chatModel: "deepseek-chat",
     excludePaths: [],
-    chunkStrategy: "heading",
+    excludeTags: [],
+    maxFileSizeKB: 0,
+    chunkStrategy: "hybrid",
     maxChunkTokens: 512,
+    resolveEmbeds: false,
+    contextHeaders: false,
+    contextProperties: [],
+    assignBlockIds: false,
     mobileIndexMode: "auto",
     topK: 10,
     minScore: 0.3,
+    keywordWeight: 0.3,
+    rerankEnabled: false,
+    rerankModel: "Xenova/ms-marco-MiniLM-L-6-v2",
+    rerankTopN: 20,
+    rerankBudgetMs: 1500,
     workerCount: 0,
+    embedBatchSize: 32,
     logLevel: "info",
     lastActiveTab: "search"
 };
@@ -74,6 +121,9 @@ export const DEFAULT_SETTINGS: BaizeSettings = {
 export function validateSettings(settings: any): BaizeSettings {
     const validated = { ...DEFAULT_SETTINGS, ...settings };
 
+    // 0. 迁移旧版本保存的设置
+    migrateSettings(validated, settings);
+
     // 1. 类型转换与范围校验 (数值型)
 
     // 分块大小: 必须大于 0，通常不建议超过 2048
@@ -97,6 +147,34 @@ export function validateSettings(settings: any): BaizeSettings {
         validated.minScore = Math.max(0, Math.min(1, validated.minScore));
     }
 
+    // 关键词权重: 0.0 到 1.0 之间
+    if (typeof validated.keywordWeight !== "number" || isNaN(validated.keywordWeight)) {
+        validated.keywordWeight = DEFAULT_SETTINGS.keywordWeight;
+    } else {
+        validated.keywordWeight = Math.max(0, Math.min(1, validated.keywordWeight));
+    }
+
+    // 重排序候选数: 5 到 50 之间
+    if (typeof validated.rerankTopN !== "number" || isNaN(validated.rerankTopN) || validated.rerankTopN < 1) {
+        validated.rerankTopN = DEFAULT_SETTINGS.rerankTopN;
+    } else {
+        validated.rerankTopN = Math.max(5, Math.min(50, Math.floor(validated.rerankTopN)));
+    }
+
+    // 重排序时间预算: 100 到 10000 毫秒之间
+    if (typeof validated.rerankBudgetMs !== "number" || isNaN(validated.rerankBudgetMs) || validated.rerankBudgetMs <= 0) {
+        validated.rerankBudgetMs = DEFAULT_SETTINGS.rerankBudgetMs;
+    } else {
+        validated.rerankBudgetMs = Math.max(100, Math.min(10000, Math.floor(validated.rerankBudgetMs)));
+    }
+
+    // 文件大小上限: 非负整数，0 表示不限制
+    if (typeof validated.maxFileSizeKB !== "number" || isNaN(validated.maxFileSizeKB) || validated.maxFileSizeKB < 0) {
+        validated.maxFileSizeKB = DEFAULT_SETTINGS.maxFileSizeKB;
+    } else {
+        validated.maxFileSizeKB = Math.floor(validated.maxFileSizeKB);
+    }
+
     // Worker 数量: 桌面端 0-32，移动端通常为 1
     if (typeof validated.workerCount !== "number" || isNaN(validated.workerCount) || validated.workerCount < 0) {
         validated.workerCount = DEFAULT_SETTINGS.workerCount;
@@ -104,6 +182,13 @@ export function validateSettings(settings: any): BaizeSettings {
         validated.workerCount = 32;
     }
 
+    // 向量化批次大小: 1 到 256 之间
+    if (typeof validated.embedBatchSize !== "number" || isNaN(validated.embedBatchSize) || validated.embedBatchSize < 1) {
+        validated.embedBatchSize = DEFAULT_SETTINGS.embedBatchSize;
+    } else {
+        validated.embedBatchSize = Math.min(256, Math.floor(validated.embedBatchSize));
+    }
+
     // 2. 枚举值校验 (下拉框)
 
     const precisions = ["auto", "fp16", "q4"];
@@ -116,7 +201,7 @@ export function validateSettings(settings: any): BaizeSettings {
         validated.llmProvider = DEFAULT_SETTINGS.llmProvider;
     }
 
-    const strategies = ["heading", "fixed", "semantic"];
+    const strategies = ["hybrid", "heading", "fixed", "semantic"];
     if (!strategies.includes(validated.chunkStrategy)) {
         validated.chunkStrategy = DEFAULT_SETTINGS.chunkStrategy;
     }
@@ -140,6 +225,38 @@ export function validateSettings(settings: any): BaizeSettings {
         validated.excludePaths = [...new Set(validated.excludePaths.map((p: string) => p.trim()).filter(Boolean))];
     }
 
+    if (!Array.isArray(validated.excludeTags)) {
+        validated.excludeTags = DEFAULT_SETTINGS.excludeTags;
+    } else {
+        validated.excludeTags = [...new Set(validated.excludeTags.map((t: string) => t.trim()).filter(Boolean))];
+    }
+
+    if (typeof validated.resolveEmbeds !== "boolean") {
+        validated.resolveEmbeds = DEFAULT_SETTINGS.resolveEmbeds;
+    }
+
+    if (typeof validated.contextHeaders !== "boolean") {
+        validated.contextHeaders = DEFAULT_SETTINGS.contextHeaders;
+    }
+
+    if (typeof validated.rerankEnabled !== "boolean") {
+        validated.rerankEnabled = DEFAULT_SETTINGS.rerankEnabled;
+    }
+
+    if (typeof validated.rerankModel !== "string" || !validated.rerankModel.trim()) {
+        validated.rerankModel = DEFAULT_SETTINGS.rerankModel;
+    }
+
+    if (typeof validated.assignBlockIds !== "boolean") {
+        validated.assignBlockIds = DEFAULT_SETTINGS.assignBlockIds;
+    }
+
+    if (!Array.isArray(validated.contextProperties)) {
+        validated.contextProperties = DEFAULT_SETTINGS.contextProperties;
+    } else {
+        validated.contextProperties = [...new Set(validated.contextProperties.map((p: string) => String(p).trim()).filter(Boolean))];
+    }
+
     if (typeof validated.apiKey !== "string") {
         validated.apiKey = DEFAULT_SETTINGS.apiKey;
     }
@@ -155,3 +272,20 @@ export function validateSettings(settings: any): BaizeSettings {
 
     return validated;
 }
+
+/**
+ * 将旧版本保存的设置迁移到当前格式
+ * 没有 settingsVersion 的已保存设置来自版本 1；首次安装（无已保存设置）直接使用默认值
+ */
+function migrateSettings(validated: BaizeSettings, saved: any): void {
+    const version = typeof saved?.settingsVersion === "number"
+        ? saved.settingsVersion
+        : saved && typeof saved === "object" ? 1 : SETTINGS_VERSION;
+
+    // 版本 1 的 "heading" 是默认值而不是用户的选择，且实际效果即混合分块
+    if (version < 2 && validated.chunkStrategy === "heading") {
+        validated.chunkStrategy = "hybrid";
+    }
+
+    validated.settingsVersion = SETTINGS_VERSION;
+}
@@ -1,16 +1,23 @@
 import { App, PluginSettingTab, Setting, Notice, normalizePath } from "obsidian";
 import type BaizePlugin from "../main";
 import {
-    EMBEDDING_MODELS
+    EMBEDDING_MODELS,
+    RERANKER_MODELS
 } from "../shared/constants";
 import { OpenAIClient } from "../infrastructure/models/llm-clients/openai";
 import { DeepSeekClient } from "../infrastructure/models/llm-clients/deepseek";
 import { OllamaClient } from "../infrastructure/models/llm-clients/ollama";
+import { BaizeEvents } from "../shared/event-bus";
+import type { MigrationStatus } from "../application/model-migration";
 
 export class BaizeSettingTab extends PluginSettingTab {
     plugin: BaizePlugin;
     private cacheSize: string = "正在计算...";
     private dbStats: string = "正在读取...";
+    /** 打开设置面板时的排除规则快照，关闭时对比以决定是否重新同步 */
+    private indexSnapshot: string | null = null;
+    /** 模型迁移状态监听（设置面板打开期间实时刷新） */
+    private migrationListener: ((...args: unknown[]) => void) | null = null;
 
     constructor(app: App, plugin: BaizePlugin) {
         super(app, plugin);
@@ -23,6 +30,10 @@ export class BaizeSettingTab extends PluginSettingTab {
 
         containerEl.createEl("h2", { text: "白泽 Baize 设置" });
 
+        if (this.indexSnapshot === null) {
+            this.indexSnapshot = this.serializeIndexRules();
+        }
+
         // 刷新统计信息
         await this.updateStats();
 
@@ -31,16 +42,22 @@ export class BaizeSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName("Embedding 模型")
-            .setDesc("用于文本向量化的本地模型。切换模型后需要重新构建索引。")
+            .setDesc("用于文本向量化的本地模型。切换后将在后台用新模型重建索引，完成前继续使用当前索引搜索。")
             .addDropdown(drop => {
                 EMBEDDING_MODELS.forEach(m => drop.addOption(m.id, m.name));
                 drop.setValue(this.plugin.settings.embeddingModel)
                     .onChange(async (value) => {
                         this.plugin.settings.embeddingModel = value;
                         await this.plugin.saveSettings();
+                        if (value !== this.plugin.indexCatalog?.active.profile.modelId) {
+                            new Notice(`白泽：正在后台使用 ${value} 构建新索引，完成后自动切换`);
+                        }
+                        this.plugin.syncEmbeddingModel();
                     });
             });
 
+        this.renderMigrationStatus(containerEl);
+
         new Setting(containerEl)
             .setName("模型精度")
             .setDesc("自动模式下，桌面端使用 FP16，移动端使用 Q4")
@@ -148,20 +165,45 @@ export class BaizeSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName("排除路径")
-            .setDesc("不索引的目录或文件，每行一个（支持 glob 模式，如 templates/**）")
+            .setDesc("不索引的目录或文件，每行一个。支持 glob（templates/**、*.excalidraw.md）、以 / 开头锚定到 Vault 根的路径（/Journal/）、正则（re:^Journal/ 或 /^Journal\\//i）及以 ! 开头的反向规则；笔记 frontmatter 中设置 baize: false 也可单独排除")
             .addTextArea(text => text
-                .setPlaceholder("templates/\n.trash/\n_archive/")
+                .setPlaceholder("templates/\n*.excalidraw.md\n!templates/public/**")
                 .setValue(this.plugin.settings.excludePaths.join("\n"))
                 .onChange(async (value) => {
                     this.plugin.settings.excludePaths = value.split("\n").map(s => s.trim()).filter(Boolean);
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("排除标签")
+            .setDesc("含这些标签（包括子标签）的笔记不索引，每行一个")
+            .addTextArea(text => text
+                .setPlaceholder("#private\n#draft")
+                .setValue(this.plugin.settings.excludeTags.join("\n"))
+                .onChange(async (value) => {
+                    this.plugin.settings.excludeTags = value.split("\n").map(s => s.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("文件大小上限")
+            .setDesc("超过该大小 (KB) 的文件不索引，0 为不限制")
+            .addText(text => text
+                .setValue(String(this.plugin.settings.maxFileSizeKB))
+                .onChange(async (value) => {
+                    const num = parseInt(value);
+                    if (!isNaN(num) && num >= 0) {
+                        this.plugin.settings.maxFileSizeKB = num;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         new Setting(containerEl)
             .setName("分块策略")
-            .setDesc("文本切分方式：标题分割能更好保留语义结构")
+            .setDesc("文本切分方式：混合模式按标题切分并限制分块大小；仅标题模式每个章节为一个分块，不限制长度；固定长度忽略文档结构；语义段落按自然段合并。修改后关闭设置面板时重新分块。")
             .addDropdown(drop => drop
-                .addOption("heading", "标题分割")
+                .addOption("hybrid", "混合 (推荐)")
+                .addOption("heading", "仅按标题")
                 .addOption("fixed", "固定长度")
                 .addOption("semantic", "语义段落")
                 .setValue(this.plugin.settings.chunkStrategy)
@@ -172,7 +214,7 @@ export class BaizeSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName("分块大小")
-            .setDesc("每个分块的最大 Token 数（推荐 512）")
+            .setDesc("每个分块的最大 Token 数，按当前模型的分词器计算。超过模型最大输入长度（如 all-MiniLM-L6-v2 为 256）时以模型为准。")
             .addText(text => text
                 .setValue(String(this.plugin.settings.maxChunkTokens))
                 .onChange(async (value) => {
@@ -183,9 +225,50 @@ export class BaizeSettingTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName("展开嵌入内容")
+            .setDesc("索引时将 ![[笔记]]、![[笔记#标题]]、![[笔记#^块]] 替换为被嵌入的正文（最多嵌套 3 层），适合主要由嵌入组成的 MOC 笔记。被嵌入的内容会同时计入嵌入它的笔记，开启后含嵌入的笔记将重新索引。")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.resolveEmbeds)
+                .onChange(async (value) => {
+                    this.plugin.settings.resolveEmbeds = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("上下文标题")
+            .setDesc("向量化时在每个分块前加上笔记标题、所在章节路径、标签与下方指定的属性，使分块脱离原文后仍能被正确检索；搜索结果只显示分块原文。切换后所有笔记都会重新向量化。")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.contextHeaders)
+                .onChange(async (value) => {
+                    this.plugin.settings.contextHeaders = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("上下文属性")
+            .setDesc("写入上下文标题的 frontmatter 属性名，每行一个")
+            .addTextArea(text => text
+                .setPlaceholder("aliases\ntype")
+                .setValue(this.plugin.settings.contextProperties.join("\n"))
+                .onChange(async (value) => {
+                    this.plugin.settings.contextProperties = value.split("\n").map(s => s.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("自动添加块 ID")
+            .setDesc("索引笔记时，为不含块 ID 的分块在其第一个段落、列表或表格处写入块 ID（如 ^a1b2c3）。搜索结果与对话引用通过块 ID 跳转，笔记编辑后仍能准确定位。会修改笔记内容，对之后索引的笔记生效。")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.assignBlockIds)
+                .onChange(async (value) => {
+                    this.plugin.settings.assignBlockIds = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName("移动端索引触发")
-            .setDesc("移动端环境下的自动索引策略")
+            .setDesc("移动端环境下的自动索引策略。应用在后台时始终暂缓索引；手动模式下通过命令“立即索引待处理的文件”触发。")
             .addDropdown(drop => drop
                 .addOption("auto", "自动 (前台空闲时)")
                 .addOption("charging", "仅充电时")
@@ -204,10 +287,9 @@ export class BaizeSettingTab extends PluginSettingTab {
                 .setWarning()
                 .onClick(async () => {
                     if (confirm("确定要删除现有索引并完全重新构建吗？这可能需要一些时间。")) {
-                        // TODO: 触发 IndexScheduler.fullSync()
                         new Notice("开始重建全量索引...");
                         if (this.plugin.indexScheduler) {
-                            this.plugin.indexScheduler.fullSync();
+                            this.plugin.indexScheduler.fullSync({ force: true });
                         } else {
                             new Notice("索引调度器尚未就绪");
                         }
@@ -241,12 +323,73 @@ export class BaizeSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("关键词权重")
+            .setDesc("混合检索中 BM25 关键词排名所占的权重 (0.0 - 1.0)。错误码、人名、编号等精确词汇较多时可调高，0 为纯语义检索。")
+            .addSlider(slider => slider
+                .setLimits(0, 1, 0.05)
+                .setValue(this.plugin.settings.keywordWeight)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.keywordWeight = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("结果重排序")
+            .setDesc("用本地交叉编码器模型对前 N 个候选重新打分排序，适用于搜索、灵感联想与问答检索。更准确但更慢，超出时间预算时保留原顺序。")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.rerankEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.rerankEnabled = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.syncReranker();
+                }));
+
+        new Setting(containerEl)
+            .setName("重排序模型")
+            .setDesc("首次启用时下载，之后从缓存加载。")
+            .addDropdown(drop => {
+                RERANKER_MODELS.forEach(m => drop.addOption(m.id, m.name));
+                drop.setValue(this.plugin.settings.rerankModel)
+                    .onChange(async (value) => {
+                        this.plugin.settings.rerankModel = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.syncReranker();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("重排序候选数")
+            .setDesc("参与重排序的候选数 (5 - 50)。")
+            .addSlider(slider => slider
+                .setLimits(5, 50, 5)
+                .setValue(this.plugin.settings.rerankTopN)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.rerankTopN = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("重排序时间预算 (毫秒)")
+            .setDesc("重排序超过该时间即放弃，按原顺序返回结果 (100 - 10000)。")
+            .addText(text => text
+                .setValue(String(this.plugin.settings.rerankBudgetMs))
+                .onChange(async (value) => {
+                    const num = parseInt(value);
+                    if (!isNaN(num) && num >= 100 && num <= 10000) {
+                        this.plugin.settings.rerankBudgetMs = num;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         // ── 5. 高级设置 ──
         containerEl.createEl("h3", { text: "高级设置" });
 
         new Setting(containerEl)
             .setName("Worker 线程数")
-            .setDesc("设置并行处理的 Web Worker 数量 (0 为自动)。仅桌面端有效。")
+            .setDesc("同时进行的向量化批次数 (0 为自动，按 CPU 核数选择)。仅桌面端有效，移动端固定为 1。")
             .addText(text => text
                 .setValue(String(this.plugin.settings.workerCount))
                 .onChange(async (value) => {
@@ -257,6 +400,19 @@ export class BaizeSettingTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName("向量化批次大小")
+            .setDesc("每批向量化的分块数，可跨多个文件合并 (1 - 256)。较大的批次吞吐更高，但占用更多内存。")
+            .addText(text => text
+                .setValue(String(this.plugin.settings.embedBatchSize))
+                .onChange(async (value) => {
+                    const num = parseInt(value);
+                    if (!isNaN(num) && num >= 1 && num <= 256) {
+                        this.plugin.settings.embedBatchSize = num;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         new Setting(containerEl)
             .setName("日志级别")
             .setDesc("Debug 模式会记录更多详细信息到控制台")
@@ -287,6 +443,77 @@ export class BaizeSettingTab extends PluginSettingTab {
 
     // ─── 工具方法 ───
 
+    /** 模型迁移进度（无迁移时隐藏） */
+    private renderMigrationStatus(containerEl: HTMLElement): void {
+        const setting = new Setting(containerEl)
+            .setName("索引迁移")
+            .addButton(btn => btn
+                .setButtonText("取消迁移")
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.cancelModelMigration();
+                    this.display();
+                }));
+
+        const update = () => {
+            const status = this.plugin.modelMigration?.getStatus();
+            setting.settingEl.toggle(!!status && status.state !== "idle");
+            if (status) setting.setDesc(this.describeMigration(status));
+        };
+
+        this.detachMigrationListener();
+        this.migrationListener = update;
+        this.plugin.eventBus.on(BaizeEvents.MIGRATION_STATE, update);
+        update();
+    }
+
+    private describeMigration(status: MigrationStatus): string {
+        switch (status.state) {
+            case "preparing":
+                return `正在加载新模型 ${status.modelId}...`;
+            case "building":
+                return `正在使用 ${status.modelId} 构建新索引 (${status.done}/${status.total})，完成前继续使用当前索引`;
+            case "swapping":
+                return "新索引已构建完成，正在切换...";
+            case "error":
+                return `迁移失败：${status.error}`;
+            default:
+                return "";
+        }
+    }
+
+    private detachMigrationListener(): void {
+        if (this.migrationListener) {
+            this.plugin.eventBus.off(BaizeEvents.MIGRATION_STATE, this.migrationListener);
+            this.migrationListener = null;
+        }
+    }
+
+    /**
+     * 关闭设置面板时，若排除规则或分块设置有变则执行一次增量同步
+     * （清理新排除的文件、补齐重新包含的文件、按新设置重新分块）
+     */
+    hide(): void {
+        this.detachMigrationListener();
+
+        const changed = this.indexSnapshot !== null && this.indexSnapshot !== this.serializeIndexRules();
+        this.indexSnapshot = null;
+        if (changed) {
+            this.plugin.indexScheduler?.fullSync();
+        }
+    }
+
+    private serializeIndexRules(): string {
+        const {
+            excludePaths, excludeTags, maxFileSizeKB,
+            chunkStrategy, maxChunkTokens, resolveEmbeds, contextHeaders, contextProperties,
+        } = this.plugin.settings;
+        return JSON.stringify({
+            excludePaths, excludeTags, maxFileSizeKB,
+            chunkStrategy, maxChunkTokens, resolveEmbeds, contextHeaders, contextProperties,
+        });
+    }
+
     private async updateStats() {
         try {
             // 计算缓存大小
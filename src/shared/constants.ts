@@ -25,3 +25,9 @@ export const EMBEDDING_MODELS = [
     { id: "Xenova/paraphrase-multilingual-MiniLM-L12-v2", name: "multilingual-MiniLM (多语言/轻量)" },
     { id: "Xenova/nomic-embed-text-v1.5", name: "nomic-embed-text-v1.5 (高上下文/需高内存)" },
 ];
+
+/** 预设重排序（交叉编码器）模型列表 */
+export const RERANKER_MODELS = [
+    { id: "Xenova/ms-marco-MiniLM-L-6-v2", name: "ms-marco-MiniLM-L-6-v2 (英文/轻量)" },
+    { id: "Xenova/bge-reranker-base", name: "bge-reranker-base (中英/需高内存)" },
+];
@@ -11,17 +11,22 @@ export const BaizeEvents = {
     FILE_CHANGED: "file:changed",
     FILE_DELETED: "file:deleted",
     FILE_RENAMED: "file:renamed",
+    FILE_BATCH: "file:batch",
 
     // 索引状态
     INDEX_PROGRESS: "index:progress",
     INDEX_COMPLETE: "index:complete",
     INDEX_ERROR: "index:error",
+    INDEX_STATE: "index:state",
 
     // 模型状态
     MODEL_LOADING: "model:loading",
     MODEL_READY: "model:ready",
     MODEL_ERROR: "model:error",
 
+    // 模型切换迁移
+    MIGRATION_STATE: "migration:state",
+
     // 搜索
     SEARCH_START: "search:start",
     SEARCH_COMPLETE: "search:complete",
@@ -0,0 +1,27 @@
+/**
+ * 白泽 Baize - 内容哈希工具
+ * 
+ * 用于判断文件/分块内容是否发生变化，非加密用途
+ */
+
+/**
+ * 计算字符串的 53 位哈希（cyrb53），返回 14 位十六进制字符串
+ * 
+ * 同步、无依赖，在桌面端和移动端结果一致
+ */
+export function hashString(text: string, seed = 0): string {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return hash.toString(16).padStart(14, "0");
+}
@@ -0,0 +1,55 @@
+/**
+ * 白泽 Baize - 搜索结果跳转
+ * 
+ * 根据分块元数据定位到原文：
+ * - PDF：跳转到对应页
+ * - Canvas：打开画布并聚焦到对应节点
+ * - Markdown：分块含块 ID 且块仍存在时跳转到 `笔记#^块ID`，否则跳转到起始行
+ *   （行号在索引后编辑笔记会发生偏移，块 ID 不会）
+ * - 纯文本：跳转到起始行
+ */
+import { TFile } from "obsidian";
+import type { App, WorkspaceLeaf } from "obsidian";
+import type { BaizeChunk } from "../domain/models/baize-chunk";
+import { chunkLinktext } from "../domain/models/baize-chunk";
+
+/** 打开分块所在的源文件并定位 */
+export async function openChunkSource(app: App, chunk: BaizeChunk): Promise<void> {
+    const filePath = chunk.vectorId.split("::")[0];
+    const file = app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) return;
+
+    const { page, node_id: nodeId } = chunk.metadata;
+
+    if (page !== undefined) {
+        await app.workspace.openLinkText(`${filePath}#page=${page}`, "", false);
+        return;
+    }
+
+    const blockId = chunk.metadata.block_ids?.[0];
+    if (blockId && app.metadataCache.getFileCache(file)?.blocks?.[blockId.toLowerCase()]) {
+        await app.workspace.openLinkText(chunkLinktext(chunk), "", false);
+        return;
+    }
+
+    const leaf = app.workspace.getLeaf(false);
+    if (nodeId !== undefined) {
+        await leaf.openFile(file);
+        focusCanvasNode(leaf, nodeId);
+        return;
+    }
+
+    await leaf.openFile(file, {
+        eState: { line: chunk.lineStart - 1 },
+    });
+}
+
+/** 选中并缩放到 Canvas 节点（依赖未公开的 Canvas API，失败时静默忽略） */
+function focusCanvasNode(leaf: WorkspaceLeaf, nodeId: string): void {
+    const canvas = (leaf.view as any)?.canvas;
+    const node = canvas?.nodes?.get(nodeId);
+    if (!node) return;
+
+    canvas.selectOnly?.(node);
+    canvas.zoomToSelection?.();
+}
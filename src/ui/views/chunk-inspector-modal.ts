@@ -0,0 +1,42 @@
+/**
+ * 白泽 Baize - 分块检查视图
+ * 基于 Obsidian Modal 实现，挂载 Svelte ChunkInspectorPanel 组件
+ */
+import { App, Modal, TFile } from "obsidian";
+import { mount, unmount } from "svelte";
+import type BaizePlugin from "../../main";
+import ChunkInspectorPanel from "../components/ChunkInspectorPanel.svelte";
+
+export class BaizeChunkInspectorModal extends Modal {
+    private component: any;
+    private plugin: BaizePlugin;
+    private file: TFile;
+
+    constructor(app: App, plugin: BaizePlugin, file: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.file = file;
+    }
+
+    onOpen() {
+        this.modalEl.addClass("baize-chunk-inspector-modal");
+
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.component = mount(ChunkInspectorPanel, {
+            target: contentEl,
+            props: {
+                plugin: this.plugin,
+                file: this.file
+            }
+        });
+    }
+
+    onClose() {
+        if (this.component) {
+            unmount(this.component);
+            this.component = null;
+        }
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * 白泽 Baize - 索引失败文件报告
+ * 基于 Obsidian Modal 实现，挂载 Svelte FailedFilesPanel 组件
+ */
+import { App, Modal } from "obsidian";
+import { mount, unmount } from "svelte";
+import type BaizePlugin from "../../main";
+import FailedFilesPanel from "../components/FailedFilesPanel.svelte";
+
+export class BaizeFailedFilesModal extends Modal {
+    private component: any;
+    private plugin: BaizePlugin;
+
+    constructor(app: App, plugin: BaizePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.modalEl.addClass("baize-failed-files-modal");
+
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.component = mount(FailedFilesPanel, {
+            target: contentEl,
+            props: {
+                plugin: this.plugin
+            }
+        });
+    }
+
+    onClose() {
+        if (this.component) {
+            unmount(this.component);
+            this.component = null;
+        }
+    }
+}